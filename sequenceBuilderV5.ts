@@ -1,6 +1,9 @@
 // taskExecutionSystem.ts
 
 // Import necessary modules
+import { EventEmitter } from "events";
+import * as fs from "fs/promises";
+import * as path from "path";
 import chalk from "chalk";
 import * as opentelemetry from "@opentelemetry/api";
 import { NodeTracerProvider } from "@opentelemetry/sdk-trace-node";
@@ -10,6 +13,9 @@ import {
   SpanExporter,
 } from "@opentelemetry/sdk-trace-base";
 import axios from "axios";
+import { v4 as uuidv4 } from "uuid";
+import YAML from "yaml";
+import sequenceSchemaFile from "./sequence.schema.json";
 
 // Set up OpenTelemetry with custom InMemorySpanExporter
 class InMemorySpanExporter implements SpanExporter {
@@ -38,414 +44,2933 @@ interface Task {
   id: string;
   action: (...args: any[]) => Promise<any> | any;
   dependencies?: string[];
+  inject?: InjectionMode;
+  args?: ArgumentMapping;
   artifact?: any;
-  retryCount?: number;
-  retryDelay?: number;
+  retry?: RetryPolicy;
+  timeout?: number;
+  totalTimeout?: number;
   onError?: "continue" | "abort";
+  compensate?: (
+    artifact: any,
+    ctx: CompensationContext
+  ) => Promise<void> | void;
+  when?: (
+    artifacts: Record<string, any>,
+    input: any
+  ) => Promise<boolean> | boolean;
+  onDependencySkipped?: SkipPolicy;
   priority?: number;
+  uses?: ResourceUsage;
+  rateLimit?: string;
+  map?: MapOptions; // run the action once per element of an array
+  subSequence?: SubSequence; // run another sequence as this task
+  // The per-element tasks of a map task's last run, or the tasks of a
+  // sub-sequence
+  children?: Task[];
+  spawnedBy?: string; // added during the run by this task's action
+  spawned?: boolean; // its action spawned tasks during the last run
   metrics?: ExecutionMetrics;
-  status?: "success" | "failed";
+  status?: TaskStatus;
+  skipReason?: SkipReason;
+  attempts?: number;
+  error?: any;
+  restored?: boolean; // completed in an earlier run and loaded from a checkpoint
+}
+
+type TaskStatus = "success" | "failed" | "cancelled" | "skipped";
+
+// What a task does when one of its dependencies was skipped: skip as well, or
+// run with undefined in place of the missing artifact
+type SkipPolicy = "skip" | "run";
+
+type SkipReason = "condition" | "dependency-skipped";
+
+// A map task runs its action once per element of the array at `over`, each
+// element as a child task with the retry, timeout and rate limit settings of
+// the layer. Its artifact is the results in input order; an element that
+// failed within maxFailures leaves undefined in its place.
+interface MapOptions {
+  over: string; // path to the array, as in ArgumentMapping
+  concurrency?: number; // children running at once, 2 if unset
+  maxFailures?: number; // failed elements tolerated, 0 if unset
+}
+
+// Passed to a compensation action along with the artifact it should undo
+interface CompensationContext {
+  taskId: string;
+  input: any;
+  reason: any; // why the run was aborted
+}
+
+// Passed as the last argument to every action, after the dependency results
+interface TaskContext {
+  taskId: string;
+  attempt: number;
+  signal: AbortSignal;
+  // Add a task to the running graph. Throws, changing nothing, if it would
+  // close a cycle or refers to tasks the run doesn't have. Spawning a task
+  // this task already added is a no-op, so retries can spawn again; tasks
+  // spawned by a failed attempt are dropped if they haven't started.
+  spawn: (layer: SpawnLayerConfig) => void;
 }
 
 interface ExecutionMetrics {
-  startTime: number;
+  startTime: number; // of the last attempt
   endTime: number;
   duration: number;
+  timedOut?: boolean;
+  readyTime?: number; // when its dependencies had settled
+  waitTime?: number; // spent waiting for a concurrency slot after readyTime
+  // Per resource, how long it was short of what the task needed. The waits
+  // overlap, as everything is acquired together.
+  resourceWaitTimes?: Record<string, number>;
 }
 
-interface SequenceConfig {
-  verbose?: boolean;
-  maxConcurrency?: number;
+interface RetryPolicy {
+  maxRetries?: number;
+  delay?: number; // base delay in ms
+  backoff?: "fixed" | "exponential";
+  factor?: number; // growth per attempt for exponential backoff, default 2
+  maxDelay?: number; // cap for the computed delay
+  jitter?: "none" | "full" | "decorrelated";
+  // Return false to fail right away instead of retrying
+  retryOn?: (error: any, attempt: number) => boolean;
+  // Minimum wait requested by the error itself, in ms (e.g. Retry-After)
+  retryAfter?: (error: any) => number | undefined;
 }
 
-interface LayerConfig {
-  name: string;
-  execute: (...args: any[]) => Promise<any> | any;
-  dependsOn?: string[];
-  retries?: number;
-  retryDelay?: number;
-  onError?: "continue" | "abort";
-  priority?: number;
+interface TaskReport {
+  id: string;
+  status?: TaskStatus;
+  skipReason?: SkipReason;
+  artifact?: any;
+  error?: any;
+  attempts: number;
+  metrics?: ExecutionMetrics;
+  restored: boolean;
+  dependencies: string[]; // including edges added by spawned tasks
+  spawnedBy?: string;
+  // One per element of a map task in input order, or the tasks of a
+  // sub-sequence
+  children?: TaskReport[];
 }
 
-// Logging function
-function log(
-  type: "info" | "success" | "warning" | "error",
-  message: string,
-  data?: any,
-  executionStart?: number
-) {
-  const timestamp = new Date().toISOString();
-  const timeSinceStart = executionStart
-    ? `+${((Date.now() - executionStart) / 1000).toFixed(3)}s`
-    : "";
-  let coloredMessage: string;
+interface CompensationReport {
+  taskId: string;
+  status: "success" | "failed";
+  error?: any;
+  metrics: ExecutionMetrics;
+}
 
-  switch (type) {
-    case "info":
-      coloredMessage = chalk.blue(message);
-      break;
-    case "success":
-      coloredMessage = chalk.green(message);
-      break;
-    case "warning":
-      coloredMessage = chalk.yellow(message);
-      break;
-    case "error":
-      coloredMessage = chalk.red(message);
-      break;
-    default:
-      coloredMessage = message;
-  }
+interface RunStats {
+  totalTasks: number;
+  successfulTasks: number;
+  failedTasks: number;
+  cancelledTasks: number;
+  skippedTasks: number;
+  successRate: number; // percentage of tasks that weren't skipped
+  averageTaskDuration: number;
+  maxTaskDuration: number;
+  minTaskDuration: number;
+}
 
-  console.log(`[${timestamp} ${timeSinceStart}] ${coloredMessage}`);
-  if (data) {
-    console.log(chalk.cyan(JSON.stringify(data, null, 2)));
-  }
+// Where the time of a run went, per executed task
+interface TaskTiming {
+  taskId: string;
+  readyTime: number;
+  startTime: number; // got a concurrency slot; waitTime after readyTime
+  endTime: number;
+  waitTime: number;
+  executionTime: number; // from startTime, including retries and their delays
+  slack: number; // how much later it could have finished without delaying the run
+  critical: boolean;
 }
 
-// Delay function
-function delay(ms: number): Promise<void> {
-  return new Promise((resolve) => setTimeout(resolve, ms));
+interface CriticalPathAnalysis {
+  path: string[]; // the chain of tasks that bounded the run, first task first
+  tasks: Record<string, TaskTiming>;
+  totalWaitTime: number;
+  totalExecutionTime: number;
 }
 
-// GraphNode and Graph classes for DAG
-class GraphNode {
-  id: string;
-  task: Task;
-  dependencies: GraphNode[] = [];
-  dependents: GraphNode[] = [];
-  inDegree: number = 0;
+// Everything known about a finished build, for code to inspect or a renderer
+// to print
+interface RunReport {
+  runId: string;
+  status: "success" | "failed" | "cancelled";
+  error?: any;
+  startTime: number;
+  endTime: number;
+  duration: number;
+  tasks: Record<string, TaskReport>; // in the order layers were added
+  compensations: CompensationReport[]; // in the order they ran
+  stats: RunStats;
+  criticalPath: CriticalPathAnalysis;
+  spans: ReadableSpan[];
+}
 
-  constructor(task: Task) {
-    this.id = task.id;
-    this.task = task;
-  }
+interface SequenceConfig {
+  verbose?: boolean; // with the default logger, also log arguments and artifacts
+  maxConcurrency?: number;
+  logger?: Logger;
+  onDependencySkipped?: SkipPolicy; // default for layers, "skip" if unset
+  checkpointStore?: CheckpointStore;
+  registry?: ActionRegistry; // names functions when serializing with toJSON()
+  input?: any; // input for build() calls that don't pass one
+  // Which ready task gets the next free concurrency slot; "fifo" if unset
+  scheduler?: SchedulerName | SchedulingStrategy;
+  // Named pools beyond the maxConcurrency slots, e.g. { db: 2, http: 5 }
+  resources?: Record<string, number>;
+  // Named rate limits for layers to refer to. Pass the same RateLimiter to
+  // several sequences to hold them all to one quota.
+  rateLimiters?: Record<string, RateLimiter | RateLimitOptions>;
 }
 
-class Graph {
-  nodes: Map<string, GraphNode> = new Map();
+interface RateLimitOptions {
+  tokens: number; // added to the bucket every interval
+  interval: number; // in ms
+  burst?: number; // most tokens the bucket holds; tokens if unset
+}
 
-  addTask(task: Task): void {
-    let node = this.nodes.get(task.id);
-    if (!node) {
-      node = new GraphNode(task);
-      this.nodes.set(task.id, node);
-    }
+// Resource name -> units a task holds while it runs. Every task also holds
+// one unit of "concurrency", the pool sized by maxConcurrency, unless it
+// names a different weight for it.
+type ResourceUsage = Record<string, number>;
 
-    if (task.dependencies) {
-      task.dependencies.forEach((depId) => {
-        let depNode = this.nodes.get(depId);
-        if (!depNode) {
-          throw new Error(`Dependency ${depId} not found for task ${task.id}`);
-        }
-        node!.dependencies.push(depNode);
-        depNode.dependents.push(node!);
-        node!.inDegree++;
-      });
-    }
-  }
+// A task waiting for a concurrency slot, as seen by a scheduling strategy
+interface ReadyTask {
+  taskId: string;
+  priority: number;
+  readyTime: number;
+  order: number; // position in the topological order
+  estimatedDuration?: number; // from earlier runs of this sequence, in ms
+  uses: ResourceUsage; // everything it needs, "concurrency" included
+  // Longest chain of estimated durations from this task to the end of the
+  // run, itself included. Tasks without history count as the average.
+  remainingWork: number;
 }
 
-// Topological sort with priority
-function topologicalSortWithPriority(graph: Graph): GraphNode[] {
-  const sortedNodes: GraphNode[] = [];
-  const queue: GraphNode[] = [];
+interface SchedulingStrategy {
+  // Pick which of the waiting tasks gets the slot that just freed up
+  select(ready: ReadyTask[]): ReadyTask;
+}
 
-  // Initialize queue with nodes having inDegree 0
-  graph.nodes.forEach((node) => {
-    if (node.inDegree === 0) {
-      queue.push(node);
-    }
-  });
+type SchedulerName =
+  | "fifo"
+  | "lifo"
+  | "priority"
+  | "critical-path"
+  | "shortest-job-first";
 
-  while (queue.length > 0) {
-    // Sort the queue based on priority (higher priority first)
-    queue.sort((a, b) => (b.task.priority ?? 0) - (a.task.priority ?? 0));
+// "positional" passes artifacts in dependsOn order; "named" passes a single
+// object keyed by task name, plus the run input under `input`
+type InjectionMode = "positional" | "named";
 
-    const node = queue.shift()!;
-    sortedNodes.push(node);
+// Parameter name -> dotted path, rooted at a task name or at "input",
+// e.g. { user: "FetchUser", id: "input.userId" }
+type ArgumentMapping = Record<string, string>;
 
-    // Decrease inDegree of dependents
-    node.dependents.forEach((dependent) => {
-      dependent.inDegree--;
-      if (dependent.inDegree === 0) {
-        queue.push(dependent);
-      }
-    });
-  }
+// Lifecycle events. Every event carries the run id and when it happened.
+interface SequenceEventBase {
+  runId: string;
+  timestamp: number;
+}
 
-  if (sortedNodes.length !== graph.nodes.size) {
-    throw new Error(
-      "Graph has at least one cycle; topological sort not possible."
-    );
-  }
-  return sortedNodes;
+interface RunStartEvent extends SequenceEventBase {
+  type: "run:start";
+  taskIds: string[];
+  input: any;
 }
 
-// Semaphore class for concurrency control
-class Semaphore {
-  private tasks: (() => void)[] = [];
-  private counter: number;
+// All dependencies settled; the task is waiting for a concurrency slot
+interface TaskReadyEvent extends SequenceEventBase {
+  type: "task:ready";
+  taskId: string;
+}
 
-  constructor(private maxConcurrency: number) {
-    this.counter = maxConcurrency;
-  }
+interface TaskStartEvent extends SequenceEventBase {
+  type: "task:start";
+  taskId: string;
+  attempt: number;
+}
 
-  async acquire(): Promise<void> {
-    if (this.counter > 0) {
-      this.counter--;
-      return Promise.resolve();
-    }
-    return new Promise((resolve) => this.tasks.push(resolve));
-  }
+interface TaskRetryEvent extends SequenceEventBase {
+  type: "task:retry";
+  taskId: string;
+  attempt: number; // the attempt that failed
+  error: any;
+  delay: number;
+}
 
-  release(): void {
-    this.counter++;
-    if (this.tasks.length > 0) {
-      const nextTask = this.tasks.shift()!;
-      this.counter--;
-      nextTask();
-    }
-  }
+interface TaskSuccessEvent extends SequenceEventBase {
+  type: "task:success";
+  taskId: string;
+  attempt: number;
+  artifact: any;
+  metrics: ExecutionMetrics;
 }
 
-// Execution functions
-async function executeTaskWithRetries(
-  task: Task,
-  args: any[],
-  executionStart: number
-): Promise<any> {
-  return tracer.startActiveSpan(`Task ${task.id}`, async (span) => {
-    let attempts = 0;
-    const maxAttempts = task.retryCount ?? 0;
-    const retryDelay = task.retryDelay ?? 0;
+interface TaskFailedEvent extends SequenceEventBase {
+  type: "task:failed";
+  taskId: string;
+  attempt: number;
+  error: any;
+  cancelled: boolean; // stopped by cancellation rather than its own error
+}
 
-    while (attempts <= maxAttempts) {
-      try {
-        log("info", `Starting Task ${task.id}`, args, executionStart);
-        const startTime = Date.now();
+// Added to the running graph by another task's action
+interface TaskSpawnedEvent extends SequenceEventBase {
+  type: "task:spawned";
+  taskId: string;
+  spawnedBy: string;
+}
 
-        const result = await Promise.resolve(task.action(...args));
+// The task never started
+interface TaskSkippedEvent extends SequenceEventBase {
+  type: "task:skipped";
+  taskId: string;
+  reason: SkipReason | "cancelled";
+}
 
-        const endTime = Date.now();
-        task.metrics = {
-          startTime,
-          endTime,
-          duration: endTime - startTime,
-        };
-        task.status = "success";
+interface RunEndEvent extends SequenceEventBase {
+  type: "run:end";
+  status: RunReport["status"];
+  report: RunReport;
+}
 
-        log("success", `Completed Task ${task.id}`, result, executionStart);
+type SequenceEvent =
+  | RunStartEvent
+  | TaskReadyEvent
+  | TaskStartEvent
+  | TaskRetryEvent
+  | TaskSuccessEvent
+  | TaskFailedEvent
+  | TaskSkippedEvent
+  | TaskSpawnedEvent
+  | RunEndEvent;
 
-        span.setStatus({ code: opentelemetry.SpanStatusCode.OK });
-        return result;
-      } catch (error: any) {
-        attempts++;
-        span.addEvent(`Attempt ${attempts} failed: ${error.message}`);
-        if (attempts > maxAttempts) {
-          span.setStatus({
-            code: opentelemetry.SpanStatusCode.ERROR,
-            message: error.message,
-          });
-          log(
-            "error",
-            `Task ${task.id} failed after retries`,
-            null,
-            executionStart
-          );
-          task.status = "failed";
-          throw error;
-        }
-        log(
-          "warning",
-          `Task ${task.id} failed on attempt ${attempts}: ${error.message}`,
-          null,
-          executionStart
-        );
-        log(
-          "info",
-          `Retrying Task ${task.id} in ${retryDelay}ms`,
-          null,
-          executionStart
-        );
-        await delay(retryDelay);
-      } finally {
-        span.end();
-      }
-    }
-  });
-}
+type SequenceEventType = SequenceEvent["type"];
 
-async function executeTasksWithConcurrencyLimit(
-  sortedNodes: GraphNode[],
-  maxConcurrency: number,
-  executionStart: number
-): Promise<void> {
-  const nodeLevels = new Map<GraphNode, number>();
-  const semaphore = new Semaphore(maxConcurrency);
+// Event name -> listener arguments, as expected by EventEmitter
+type SequenceEventMap = {
+  [E in SequenceEvent as E["type"]]: [event: E];
+};
 
-  // Assign levels to nodes based on their dependencies
-  sortedNodes.forEach((node) => {
-    let level = 0;
-    if (node.dependencies.length > 0) {
-      level =
-        Math.max(...node.dependencies.map((dep) => nodeLevels.get(dep)!)) + 1;
-    }
-    nodeLevels.set(node, level);
-  });
+// An event as emitted by the engine, before the run id and timestamp are added
+type SequenceEventInput = SequenceEvent extends infer E
+  ? E extends SequenceEvent
+    ? Omit<E, "runId" | "timestamp">
+    : never
+  : never;
 
-  const maxLevel = Math.max(...nodeLevels.values());
+const sequenceEventTypes: SequenceEventType[] = [
+  "run:start",
+  "task:ready",
+  "task:start",
+  "task:retry",
+  "task:success",
+  "task:failed",
+  "task:skipped",
+  "task:spawned",
+  "run:end",
+];
 
-  for (let level = 0; level <= maxLevel; level++) {
-    const nodesAtLevel = sortedNodes.filter(
-      (node) => nodeLevels.get(node) === level
-    );
-    await Promise.all(
-      nodesAtLevel.map(async (node) => {
-        await semaphore.acquire();
-        try {
-          let dependencyResults: any[] = [];
-          if (node.dependencies.length > 0) {
-            dependencyResults = node.dependencies.map(
-              (depNode) => depNode.task.artifact
-            );
-          }
-          // Execute the action with dependency results
-          try {
-            const result = await executeTaskWithRetries(
-              node.task,
-              dependencyResults,
-              executionStart
-            );
-            // Store the artifact for dependents to use
-            node.task.artifact = result;
-          } catch (error) {
-            if (node.task.onError === "abort") {
-              throw new Error(
-                `Aborting execution due to failure in task ${node.id}`
-              );
-            } else {
-              // Continue execution without setting the artifact
-              node.task.artifact = null;
-            }
-          }
-        } finally {
-          semaphore.release();
-        }
-      })
-    );
-  }
+// State shared by everything executing within one run
+interface RunContext {
+  runId: string;
+  executionStart: number;
+  signal: AbortSignal;
+  input: any;
+  logger: Logger;
+  emit: (event: SequenceEventInput) => void;
+  checkpointStore?: CheckpointStore;
+  scheduler: SchedulingStrategy;
+  durationEstimates: Map<string, number>; // task id -> typical duration, in ms
+  rateLimiters: Map<string, RateLimiter>;
+  createTask: (layer: LayerConfig) => Task; // with the sequence's defaults
+  spawn?: (layer: SpawnLayerConfig, spawnedBy: string) => void; // while executing
+  // Take back spawned tasks that haven't started yet
+  retract?: (taskIds: string[]) => void;
 }
 
-// Timeline generation function
-function generateTimeline(tasks: Task[], executionStart: number) {
-  console.log(chalk.magenta("\n--- Execution Timeline ---\n"));
-  const sortedTasks = tasks
-    .filter((task) => task.metrics)
-    .sort((a, b) => a.metrics!.startTime - b.metrics!.startTime);
+interface BuildOptions {
+  signal?: AbortSignal;
+  input?: any;
+}
 
-  const totalDuration =
-    sortedTasks[sortedTasks.length - 1].metrics!.endTime - executionStart;
+// How a sequence would execute, worked out from the graph alone
+interface ExecutionPlan {
+  order: string[]; // topological order, higher priority first among ready tasks
+  // levels[n] holds the tasks whose longest dependency path has n edges
+  levels: string[][];
+  // Maximal linear chains (the "Queues" of conceptual-theory.md): each task
+  // is the only dependent of the one before it and depends on nothing else.
+  // Every task is in exactly one chain.
+  chains: string[][];
+  criticalPath: string[]; // the longest dependency path, first task first
+}
 
-  const terminalWidth = process.stdout.columns || 80;
-  const padding = 2;
-  const availableWidth = terminalWidth - padding * 2;
+// Problems found by Sequence.validate(). Errors stop a build; warnings point
+// at layers that will run but probably don't do what was meant.
+type ValidationCode =
+  | "duplicate-name"
+  | "self-dependency"
+  | "missing-dependency"
+  | "cycle"
+  | "unreachable"
+  | "resource"
+  | "rate-limit"
+  | "arity-mismatch"
+  | "unused-artifact";
 
-  // Calculate the width of the first column
-  const maxNameLength = Math.max(...sortedTasks.map((task) => task.id.length));
-  const nameColumnWidth = maxNameLength + 5;
+interface ValidationIssue {
+  severity: "error" | "warning";
+  code: ValidationCode;
+  taskId: string;
+  message: string;
+  cycle?: string[]; // for "cycle": task ids in execution order, closed
+}
 
-  // Calculate widths for progress bar and time columns
-  const remainingWidth = availableWidth - nameColumnWidth - 3; // 3 for border characters
-  const progressBarWidth = Math.floor(remainingWidth * 0.7);
-  const timeColumnWidth = remainingWidth - progressBarWidth;
+interface ValidationResult {
+  valid: boolean; // no errors, though there may be warnings
+  errors: ValidationIssue[];
+  warnings: ValidationIssue[];
+}
 
-  let output = "\n" + "─".repeat(terminalWidth) + "\n";
-  output += `${" ".repeat(padding)}${"Task Name".padEnd(
-    nameColumnWidth
-  )}│${"Progress".padEnd(progressBarWidth)}│${"Execution Time".padEnd(
-    timeColumnWidth
-  )}${" ".repeat(padding)}\n`;
-  output += "─".repeat(terminalWidth) + "\n";
+// Artifact types of the listed dependencies, in dependsOn order
+type DependencyArtifacts<
+  TArtifacts extends Record<string, any>,
+  TDeps extends readonly string[]
+> = {
+  -readonly [K in keyof TDeps]: TDeps[K] extends keyof TArtifacts
+    ? TArtifacts[TDeps[K]]
+    : never;
+};
 
-  const startTime = sortedTasks[0].metrics!.startTime;
+// Artifacts of the listed dependencies keyed by task name
+type ArtifactsByName<
+  TArtifacts extends Record<string, any>,
+  TDeps extends readonly string[]
+> = {
+  [K in TDeps[number]]: K extends keyof TArtifacts ? TArtifacts[K] : never;
+};
 
-  sortedTasks.forEach((task) => {
-    const metric = task.metrics!;
-    const startOffset = Math.floor(
-      ((metric.startTime - startTime) / totalDuration) * progressBarWidth
-    );
-    const duration = Math.max(
-      1,
-      Math.floor((metric.duration / totalDuration) * progressBarWidth)
-    );
+// Artifacts of the listed dependencies keyed by task name, plus the run input
+type NamedArtifacts<
+  TArtifacts extends Record<string, any>,
+  TDeps extends readonly string[]
+> = ArtifactsByName<TArtifacts, TDeps> & { input: any };
 
-    const nameColumn = task.id.padEnd(nameColumnWidth);
-    const progressBar =
-      " ".repeat(startOffset) +
-      "█".repeat(duration).padEnd(progressBarWidth - startOffset);
+// Values picked by an argument mapping. Paths naming a whole artifact are
+// typed; deeper paths and input paths are not.
+type MappedArguments<
+  TArtifacts extends Record<string, any>,
+  TArgs extends ArgumentMapping
+> = {
+  [P in keyof TArgs]: TArgs[P] extends keyof TArtifacts
+    ? TArtifacts[TArgs[P]]
+    : any;
+};
 
-    const startStr = `+${((metric.startTime - executionStart) / 1000).toFixed(
-      3
-    )}s`;
-    const endStr = `+${((metric.endTime - executionStart) / 1000).toFixed(3)}s`;
-    const durationStr = `(${(metric.duration / 1000).toFixed(3)}s)`;
-    const timeColumn = `${startStr} to ${endStr} ${durationStr}`.padEnd(
-      timeColumnWidth
-    );
+// Parameters of a layer's execute function. When the injection mode or the
+// dependsOn positions aren't known statically, anything goes.
+type LayerArguments<
+  TArtifacts extends Record<string, any>,
+  TDeps extends readonly string[],
+  TInject extends InjectionMode,
+  TArgs extends ArgumentMapping | undefined
+> = [TArgs] extends [ArgumentMapping]
+  ? [args: MappedArguments<TArtifacts, TArgs>, ctx: TaskContext]
+  : [TArgs] extends [undefined]
+  ? [TInject] extends ["named"]
+    ? [artifacts: NamedArtifacts<TArtifacts, TDeps>, ctx: TaskContext]
+    : [TInject] extends ["positional"]
+    ? number extends TDeps["length"]
+      ? any[]
+      : [...DependencyArtifacts<TArtifacts, TDeps>, TaskContext]
+    : any[]
+  : any[];
 
-    output += `${" ".repeat(
-      padding
-    )}${nameColumn}│${progressBar}│${timeColumn}${" ".repeat(padding)}\n`;
-  });
+interface LayerConfig<
+  TArtifacts extends Record<string, any> = Record<string, any>,
+  TName extends string = string,
+  TDeps extends readonly (keyof TArtifacts & string)[] = readonly string[],
+  TResult = any,
+  TInject extends InjectionMode = InjectionMode,
+  TArgs extends ArgumentMapping | undefined = ArgumentMapping | undefined
+> {
+  name: TName;
+  execute: (
+    ...args: LayerArguments<TArtifacts, TDeps, TInject, TArgs>
+  ) => Promise<TResult> | TResult;
+  dependsOn?: TDeps;
+  inject?: TInject;
+  // Build the first argument from these paths; referenced tasks become
+  // dependencies even when not listed in dependsOn
+  args?: TArgs;
+  retries?: number; // shorthand for retry.maxRetries
+  retryDelay?: number; // shorthand for retry.delay
+  retry?: RetryPolicy;
+  timeout?: number; // per attempt, in ms
+  totalTimeout?: number; // across all attempts and retry delays, in ms
+  onError?: "continue" | "abort";
+  // Undo this task's side effects when the run aborts after it succeeded
+  compensate?: (
+    artifact: Awaited<TResult>,
+    ctx: CompensationContext
+  ) => Promise<void> | void;
+  // Checked once the dependencies have settled; false skips the task
+  when?: (
+    artifacts: ArtifactsByName<TArtifacts, TDeps>,
+    input: any
+  ) => Promise<boolean> | boolean;
+  onDependencySkipped?: SkipPolicy;
+  priority?: number;
+  uses?: ResourceUsage; // units of SequenceConfig.resources held while running
+  // Name of a SequenceConfig.rateLimiters entry; every attempt takes a token
+  rateLimit?: string;
+}
 
-  output += "─".repeat(terminalWidth) + "\n";
+// A layer added while the run is under way. Its dependencies must already be
+// in the run, and it can't be typed against them.
+interface SpawnLayerConfig extends LayerConfig {
+  // Tasks that haven't started yet and should also wait for this one. Ones
+  // restored from a checkpoint are left alone, as they already ran.
+  requiredBy?: string[];
+}
 
-  console.log(chalk.yellow(output));
+// The element type of the array at a map layer's `over` path. Deeper paths
+// and input paths are not typed.
+type MapItem<
+  TArtifacts extends Record<string, any>,
+  TOver extends string
+> = TOver extends keyof TArtifacts
+  ? TArtifacts[TOver] extends readonly (infer TItem)[]
+    ? TItem
+    : never
+  : any;
+
+interface MapLayerConfig<
+  TArtifacts extends Record<string, any> = Record<string, any>,
+  TName extends string = string,
+  TOver extends string = string,
+  TResult = any
+> extends Omit<
+      LayerConfig<
+        TArtifacts,
+        TName,
+        readonly (keyof TArtifacts & string)[],
+        TResult[]
+      >,
+      "execute" | "inject" | "args" | "compensate"
+    >,
+    MapOptions {
+  over: TOver;
+  // Called once per element; retries and timeouts apply to each call
+  execute: (
+    item: MapItem<TArtifacts, TOver>,
+    index: number,
+    ctx: TaskContext
+  ) => Promise<TResult> | TResult;
+  compensate?: (
+    artifact: (Awaited<TResult> | undefined)[],
+    ctx: CompensationContext
+  ) => Promise<void> | void;
 }
 
-// Trace visualization function
-function visualizeTraces() {
-  console.log(chalk.magenta("\n--- Trace Hierarchy ---\n"));
+// A layer that runs a whole sequence. The child gets the artifacts of the
+// layer's dependencies (or its args) as input, and the artifact of its
+// output task becomes the layer's artifact.
+type SubSequenceLayerConfig<
+  TArtifacts extends Record<string, any>,
+  TName extends string,
+  TDeps extends readonly (keyof TArtifacts & string)[],
+  TChild extends Record<string, any>,
+  TOutput extends keyof TChild & string,
+  TArgs extends ArgumentMapping | undefined
+> = Omit<
+  LayerConfig<TArtifacts, TName, TDeps, TChild[TOutput], "named", TArgs>,
+  "execute" | "inject" | "uses"
+> & {
+  sequence: Sequence<TChild>;
+  output: TOutput;
+};
 
-  // Build a map of spans by their span ID
-  const spansById = new Map<string, ReadableSpan>();
-  exporter.spans.forEach((span) => {
-    spansById.set(span.spanContext().spanId, span);
-  });
+// A layer whose dependsOn may name layers that are only added later. Their
+// artifacts aren't known yet, so nothing it receives is typed.
+type ForwardLayerConfig<TName extends string, TResult> = LayerConfig<
+  any,
+  TName,
+  readonly string[],
+  TResult
+> & {
+  forwardReferences: true;
+};
 
-  // Build the tree of spans
-  const rootSpans: ReadableSpan[] = [];
-  const spanChildrenMap = new Map<string, ReadableSpan[]>();
+// How a sub-sequence layer runs its child. Nested runs draw their
+// concurrency and resources from the parent's pool.
+interface SubSequence {
+  output: string;
+  // Runs on its own copies of the child's tasks, which become the children
+  // of layerTask, so one child can run in several layers at once
+  run: (
+    layerTask: Task,
+    input: any,
+    signal: AbortSignal,
+    pool?: ResourcePool
+  ) => Promise<any>;
+}
 
-  exporter.spans.forEach((span) => {
-    const parentId = span.parentSpanId;
-    if (parentId && spansById.has(parentId)) {
-      const siblings = spanChildrenMap.get(parentId) || [];
-      siblings.push(span);
-      spanChildrenMap.set(parentId, siblings);
-    } else {
-      rootSpans.push(span);
-    }
-  });
+// A run of a sequence as a layer of another: a graph of its own copies of
+// the tasks, drawing from the parent run's pool
+interface NestedRun {
+  graph: Graph;
+  pool: ResourcePool;
+}
 
-  // Function to recursively display spans
-  function displaySpan(span: ReadableSpan, indent: string) {
-    const duration =
-      (span.endTime[0] - span.startTime[0]) * 1e3 +
-      (span.endTime[1] - span.startTime[1]) / 1e6;
+// Errors. Every error raised by the engine extends SequenceError and keeps
+// the error that led to it as `cause`.
+class SequenceError extends Error {
+  cause?: any;
 
-    console.log(
-      `${indent}${chalk.blue(span.name)} ${chalk.gray(
-        `(${duration.toFixed(2)}ms)`
-      )}`
-    );
+  constructor(message: string, cause?: any) {
+    super(message);
+    this.name = new.target.name;
+    this.cause = cause;
+  }
+}
 
-    const children = spanChildrenMap.get(span.spanContext().spanId) || [];
-    children.forEach((childSpan) => {
-      displaySpan(childSpan, indent + "  ");
-    });
+class CycleError extends SequenceError {
+  // Task ids along the cycle, in execution order, ending where it started
+  constructor(public cycle: string[]) {
+    super(`Graph has a cycle: ${cycle.join(" -> ")}`);
+  }
+}
+
+class MissingDependencyError extends SequenceError {
+  constructor(public taskId: string, public dependencyId: string) {
+    super(`Dependency ${dependencyId} not found for task ${taskId}`);
+  }
+}
+
+class TaskTimeoutError extends SequenceError {
+  constructor(
+    public taskId: string,
+    public timeout: number,
+    public scope: "attempt" | "total",
+    cause?: any // the error of the last attempt, if it didn't time out itself
+  ) {
+    super(
+      scope === "attempt"
+        ? `Task ${taskId} attempt timed out after ${timeout}ms`
+        : `Task ${taskId} exceeded its total timeout of ${timeout}ms`,
+      cause
+    );
+  }
+}
+
+// More elements of a map task failed than its maxFailures allows
+class MapTaskError extends SequenceError {
+  constructor(
+    public taskId: string,
+    public failures: { index: number; error: any }[],
+    public total: number
+  ) {
+    super(
+      `${failures.length} of ${total} elements of map task ${taskId} failed`,
+      failures[0]?.error
+    );
+  }
+}
+
+class TaskFailedError extends SequenceError {
+  constructor(public taskId: string, public attempts: number, cause: any) {
+    super(
+      `Task ${taskId} failed after ${attempts} attempt(s): ${
+        cause?.message ?? cause
+      }`,
+      cause
+    );
+  }
+}
+
+// The run stopped early, either cancelled or because an "abort" task failed
+class SequenceAbortedError extends SequenceError {
+  report?: RunReport;
+
+  constructor(message: string, cause?: any) {
+    super(message, cause);
+  }
+}
+
+// The run finished, but one or more "continue" tasks failed along the way
+class SequenceFailedError extends SequenceError {
+  report?: RunReport;
+
+  constructor(public errors: TaskFailedError[]) {
+    super(
+      `${errors.length} task(s) failed: ${errors
+        .map((error) => error.taskId)
+        .join(", ")}`,
+      errors[0]
+    );
+  }
+}
+
+interface DefinitionIssue {
+  path: string; // e.g. "layers[3].dependsOn[0]"
+  message: string;
+}
+
+// A sequence definition failed validation; `issues` lists every problem found
+class SequenceDefinitionError extends SequenceError {
+  constructor(public issues: DefinitionIssue[]) {
+    super(
+      `Invalid sequence definition:\n${issues
+        .map((issue) => `  ${issue.path}: ${issue.message}`)
+        .join("\n")}`
+    );
+  }
+}
+
+// Logging
+type LogLevel = "debug" | "info" | "warn" | "error";
+
+type LogFields = Record<string, any>;
+
+interface Logger {
+  debug(message: string, fields?: LogFields): void;
+  info(message: string, fields?: LogFields): void;
+  warn(message: string, fields?: LogFields): void;
+  error(message: string, fields?: LogFields): void;
+}
+
+const logLevelOrder: Record<LogLevel, number> = {
+  debug: 0,
+  info: 1,
+  warn: 2,
+  error: 3,
+};
+
+// Colored console output with a timestamp and the time since the run started.
+// Anything passed as `data` is dumped as JSON underneath the message.
+function createConsoleLogger(options: { level?: LogLevel } = {}): Logger {
+  const minLevel = logLevelOrder[options.level ?? "info"];
+
+  const write = (level: LogLevel, message: string, fields: LogFields = {}) => {
+    if (logLevelOrder[level] < minLevel) return;
+
+    const timestamp = new Date().toISOString();
+    const timeSinceStart =
+      fields.elapsedMs !== undefined
+        ? `+${(fields.elapsedMs / 1000).toFixed(3)}s`
+        : "";
+    let coloredMessage: string;
+
+    switch (level) {
+      case "debug":
+        coloredMessage = chalk.gray(message);
+        break;
+      case "info":
+        coloredMessage =
+          fields.status === "success"
+            ? chalk.green(message)
+            : chalk.blue(message);
+        break;
+      case "warn":
+        coloredMessage = chalk.yellow(message);
+        break;
+      case "error":
+        coloredMessage = chalk.red(message);
+        break;
+      default:
+        coloredMessage = message;
+    }
+
+    console.log(`[${timestamp} ${timeSinceStart}] ${coloredMessage}`);
+    if (fields.data !== undefined) {
+      console.log(chalk.cyan(JSON.stringify(fields.data, null, 2)));
+    }
+  };
+
+  return {
+    debug: (message, fields) => write("debug", message, fields),
+    info: (message, fields) => write("info", message, fields),
+    warn: (message, fields) => write("warn", message, fields),
+    error: (message, fields) => write("error", message, fields),
+  };
+}
+
+const silentLogger: Logger = {
+  debug: () => {},
+  info: () => {},
+  warn: () => {},
+  error: () => {},
+};
+
+// pino takes the fields first and the message second
+interface PinoLikeLogger {
+  debug(fields: object, message?: string): void;
+  info(fields: object, message?: string): void;
+  warn(fields: object, message?: string): void;
+  error(fields: object, message?: string): void;
+}
+
+function fromPino(pino: PinoLikeLogger): Logger {
+  return {
+    debug: (message, fields = {}) => pino.debug(fields, message),
+    info: (message, fields = {}) => pino.info(fields, message),
+    warn: (message, fields = {}) => pino.warn(fields, message),
+    error: (message, fields = {}) => pino.error(fields, message),
+  };
+}
+
+// winston takes the message first and the metadata second
+interface WinstonLikeLogger {
+  debug(message: string, meta?: object): unknown;
+  info(message: string, meta?: object): unknown;
+  warn(message: string, meta?: object): unknown;
+  error(message: string, meta?: object): unknown;
+}
+
+function fromWinston(winston: WinstonLikeLogger): Logger {
+  return {
+    debug: (message, fields = {}) => void winston.debug(message, fields),
+    info: (message, fields = {}) => void winston.info(message, fields),
+    warn: (message, fields = {}) => void winston.warn(message, fields),
+    error: (message, fields = {}) => void winston.error(message, fields),
+  };
+}
+
+// Logging function used by the engine; "success" is logged at info level
+// with a status field so pretty loggers can highlight it
+function log(
+  logger: Logger,
+  type: "debug" | "info" | "success" | "warning" | "error",
+  message: string,
+  fields: LogFields = {},
+  executionStart?: number
+) {
+  const allFields: LogFields = executionStart
+    ? { elapsedMs: Date.now() - executionStart, ...fields }
+    : { ...fields };
+
+  switch (type) {
+    case "debug":
+      logger.debug(message, allFields);
+      break;
+    case "info":
+      logger.info(message, allFields);
+      break;
+    case "success":
+      logger.info(message, { status: "success", ...allFields });
+      break;
+    case "warning":
+      logger.warn(message, allFields);
+      break;
+    case "error":
+      logger.error(message, allFields);
+      break;
+  }
+}
+
+// Checkpointing. A store persists each finished task as it completes, so an
+// interrupted run can be resumed without redoing that work.
+interface TaskCheckpoint {
+  taskId: string;
+  status: "success" | "skipped";
+  skipReason?: SkipReason;
+  artifact?: any;
+  attempts: number;
+  metrics?: ExecutionMetrics;
+  // It spawned tasks, which aren't checkpointed, so a resume runs it again
+  spawned?: boolean;
+}
+
+interface RunCheckpoint {
+  runId: string;
+  input: any;
+  tasks: Record<string, TaskCheckpoint>;
+}
+
+interface CheckpointStore {
+  // Called when a run starts, before any of its tasks finish
+  saveRun(runId: string, input: any): Promise<void>;
+  saveTask(runId: string, checkpoint: TaskCheckpoint): Promise<void>;
+  load(runId: string): Promise<RunCheckpoint | undefined>;
+}
+
+class InMemoryCheckpointStore implements CheckpointStore {
+  private runs: Map<string, RunCheckpoint> = new Map();
+
+  async saveRun(runId: string, input: any): Promise<void> {
+    const existing = this.runs.get(runId);
+    this.runs.set(runId, { runId, input, tasks: existing?.tasks ?? {} });
+  }
+
+  async saveTask(runId: string, checkpoint: TaskCheckpoint): Promise<void> {
+    const run = this.runs.get(runId);
+    if (!run) {
+      throw new SequenceError(`No checkpoint found for run ${runId}`);
+    }
+    run.tasks[checkpoint.taskId] = { ...checkpoint };
+  }
+
+  async load(runId: string): Promise<RunCheckpoint | undefined> {
+    const run = this.runs.get(runId);
+    return run ? { ...run, tasks: { ...run.tasks } } : undefined;
+  }
+}
+
+// One JSON file per run in the given directory. Artifacts must be
+// JSON-serializable to survive a resume.
+class FileCheckpointStore implements CheckpointStore {
+  // Writes to the same run file are chained so they never interleave
+  private pendingWrites: Map<string, Promise<void>> = new Map();
+
+  constructor(private directory: string) {}
+
+  async saveRun(runId: string, input: any): Promise<void> {
+    await this.update(runId, (existing) => ({
+      runId,
+      input,
+      tasks: existing?.tasks ?? {},
+    }));
+  }
+
+  async saveTask(runId: string, checkpoint: TaskCheckpoint): Promise<void> {
+    await this.update(runId, (existing) => {
+      if (!existing) {
+        throw new SequenceError(`No checkpoint found for run ${runId}`);
+      }
+      existing.tasks[checkpoint.taskId] = checkpoint;
+      return existing;
+    });
+  }
+
+  async load(runId: string): Promise<RunCheckpoint | undefined> {
+    // Let writes already queued for this run land first
+    await this.pendingWrites.get(runId)?.catch(() => {});
+    return this.read(runId);
+  }
+
+  private async read(runId: string): Promise<RunCheckpoint | undefined> {
+    try {
+      const contents = await fs.readFile(this.filePath(runId), "utf8");
+      return JSON.parse(contents);
+    } catch (error: any) {
+      if (error.code === "ENOENT") {
+        return undefined;
+      }
+      throw error;
+    }
+  }
+
+  private filePath(runId: string): string {
+    // A run id names a file in the directory, never a path out of it
+    if (/[\\/]/.test(runId) || runId.includes("..")) {
+      throw new SequenceError(`Invalid run id for a checkpoint file: ${runId}`);
+    }
+    return path.join(this.directory, `${runId}.json`);
+  }
+
+  private update(
+    runId: string,
+    change: (existing: RunCheckpoint | undefined) => RunCheckpoint
+  ): Promise<void> {
+    const previous = this.pendingWrites.get(runId) ?? Promise.resolve();
+    const write = previous
+      .catch(() => {
+        // A failed earlier write shouldn't block this one
+      })
+      .then(async () => {
+        const existing = await this.read(runId);
+        const next = change(existing);
+        await fs.mkdir(this.directory, { recursive: true });
+        // Write to a temporary file first so a crash never leaves half a file
+        const target = this.filePath(runId);
+        await fs.writeFile(`${target}.tmp`, JSON.stringify(next, null, 2));
+        await fs.rename(`${target}.tmp`, target);
+      });
+    this.pendingWrites.set(runId, write);
+    return write;
+  }
+}
+
+// Persist a finished task, logging rather than failing the run if the store
+// is unavailable
+async function saveCheckpoint(task: Task, run: RunContext): Promise<void> {
+  // A spawned task is spawned again when the task that added it reruns
+  if (!run.checkpointStore || task.spawnedBy) return;
+  try {
+    await run.checkpointStore.saveTask(run.runId, {
+      taskId: task.id,
+      status: task.status as TaskCheckpoint["status"],
+      skipReason: task.skipReason,
+      artifact: task.artifact,
+      attempts: task.attempts ?? 0,
+      metrics: task.metrics,
+      spawned: task.spawned,
+    });
+  } catch (error: any) {
+    log(
+      run.logger,
+      "warning",
+      `Could not checkpoint Task ${task.id}: ${error.message}`,
+      { taskId: task.id, error },
+      run.executionStart
+    );
+  }
+}
+
+// Delay function, cut short with a rejection if the signal aborts
+function delay(ms: number, signal?: AbortSignal): Promise<void> {
+  return new Promise((resolve, reject) => {
+    if (signal?.aborted) {
+      reject(createAbortError(signal));
+      return;
+    }
+    const onAbort = () => {
+      clearTimeout(timer);
+      reject(createAbortError(signal!));
+    };
+    const timer = setTimeout(() => {
+      signal?.removeEventListener("abort", onAbort);
+      resolve();
+    }, ms);
+    signal?.addEventListener("abort", onAbort, { once: true });
+  });
+}
+
+// Reject with the error from onTimeout if the promise takes longer than ms
+function withTimeout<T>(
+  promise: Promise<T>,
+  ms: number,
+  onTimeout: () => Error
+): Promise<T> {
+  if (!Number.isFinite(ms)) {
+    return promise;
+  }
+  return new Promise((resolve, reject) => {
+    const timer = setTimeout(() => reject(onTimeout()), Math.max(0, ms));
+    promise.then(
+      (value) => {
+        clearTimeout(timer);
+        resolve(value);
+      },
+      (error) => {
+        clearTimeout(timer);
+        reject(error);
+      }
+    );
+  });
+}
+
+// Read a Retry-After style hint from an error, in ms. Understands an explicit
+// `retryAfter` (ms) and the Retry-After header of an HTTP error response.
+function getRetryAfterHint(error: any): number | undefined {
+  if (typeof error?.retryAfter === "number") {
+    return error.retryAfter;
+  }
+  const header =
+    error?.response?.headers?.["retry-after"] ??
+    error?.response?.headers?.["Retry-After"];
+  if (header === undefined || header === null) {
+    return undefined;
+  }
+  const seconds = Number(header);
+  if (!Number.isNaN(seconds)) {
+    return seconds * 1000;
+  }
+  const date = Date.parse(header);
+  return Number.isNaN(date) ? undefined : Math.max(0, date - Date.now());
+}
+
+// Compute how long to wait before the next attempt (attempt is 1-based and
+// refers to the attempt that just failed)
+function computeRetryDelay(
+  policy: RetryPolicy,
+  attempt: number,
+  previousDelay: number,
+  error: any
+): number {
+  const base = policy.delay ?? 0;
+  const maxDelay = policy.maxDelay ?? Infinity;
+
+  let nextDelay =
+    policy.backoff === "exponential"
+      ? base * Math.pow(policy.factor ?? 2, attempt - 1)
+      : base;
+
+  switch (policy.jitter) {
+    case "full":
+      nextDelay = Math.random() * Math.min(nextDelay, maxDelay);
+      break;
+    case "decorrelated":
+      // Random between the base and three times the previous delay
+      nextDelay =
+        base + Math.random() * (Math.max(previousDelay, base) * 3 - base);
+      break;
+  }
+  nextDelay = Math.min(nextDelay, maxDelay);
+
+  // A hint from the failing call always wins over a shorter computed delay
+  const hint = (policy.retryAfter ?? getRetryAfterHint)(error);
+  if (hint !== undefined) {
+    nextDelay = Math.max(nextDelay, hint);
+  }
+  return Math.round(nextDelay);
+}
+
+// Follow a dotted path such as "FetchUser.address.city" into a value
+function resolvePath(root: any, path: string[]): any {
+  return path.reduce(
+    (value, key) =>
+      value === undefined || value === null ? value : value[key],
+    root
+  );
+}
+
+// Artifacts of a node's dependencies keyed by task name
+function collectArtifacts(node: GraphNode): Record<string, any> {
+  const artifacts: Record<string, any> = {};
+  node.dependencies.forEach((depNode) => {
+    artifacts[depNode.id] = depNode.task.artifact;
+  });
+  return artifacts;
+}
+
+// Build the leading arguments for a node's action from its dependencies'
+// artifacts, according to the task's injection mode
+function resolveArguments(node: GraphNode, input: any): any[] {
+  const artifacts = collectArtifacts(node);
+
+  if (node.task.args) {
+    const mapped: Record<string, any> = {};
+    Object.entries(node.task.args).forEach(([param, path]) => {
+      const [root, ...rest] = path.split(".");
+      mapped[param] = resolvePath(
+        root === "input" ? input : artifacts[root],
+        rest
+      );
+    });
+    return [mapped];
+  }
+  if (node.task.inject === "named") {
+    return [{ ...artifacts, input }];
+  }
+  return node.dependencies.map((depNode) => depNode.task.artifact);
+}
+
+// Turn the abort reason of a signal into an Error to reject with
+function createAbortError(signal: AbortSignal): Error {
+  return signal.reason instanceof Error
+    ? signal.reason
+    : new Error("Sequence execution cancelled");
+}
+
+// GraphNode and Graph classes for DAG
+class GraphNode {
+  id: string;
+  task: Task;
+  dependencies: GraphNode[] = [];
+  dependents: GraphNode[] = [];
+  inDegree: number = 0;
+
+  constructor(task: Task) {
+    this.id = task.id;
+    this.task = task;
+  }
+}
+
+// Built in two passes, so tasks can be added in any order: addTask registers
+// the nodes, then link wires up the dependencies once every task is known.
+class Graph {
+  nodes: Map<string, GraphNode> = new Map();
+
+  addTask(task: Task): void {
+    if (!this.nodes.has(task.id)) {
+      this.nodes.set(task.id, new GraphNode(task));
+    }
+  }
+
+  link(): void {
+    this.nodes.forEach((node) => {
+      node.task.dependencies?.forEach((depId) => {
+        const depNode = this.nodes.get(depId);
+        if (!depNode) {
+          throw new MissingDependencyError(node.task.id, depId);
+        }
+        node.dependencies.push(depNode);
+        depNode.dependents.push(node);
+        node.inDegree++;
+      });
+    });
+  }
+
+  static fromTasks(tasks: Task[]): Graph {
+    const graph = new Graph();
+    tasks.forEach((task) => graph.addTask(task));
+    graph.link();
+    return graph;
+  }
+
+  // Add a task to a linked graph, e.g. one that is executing. requiredBy
+  // lists tasks that should depend on it. Everything is checked first, so a
+  // task that would close a cycle leaves the graph as it was.
+  insertTask(task: Task, requiredBy: string[] = []): GraphNode {
+    if (this.nodes.has(task.id)) {
+      throw new SequenceError(`Task ${task.id} already exists`);
+    }
+    const dependencies = (task.dependencies ?? []).map((depId) => {
+      const depNode = this.nodes.get(depId);
+      if (!depNode) {
+        throw new MissingDependencyError(task.id, depId);
+      }
+      return depNode;
+    });
+    const dependents = requiredBy.map((id) => {
+      const dependent = this.nodes.get(id);
+      if (!dependent) {
+        throw new SequenceError(`Task ${task.id} is required by unknown ${id}`);
+      }
+      return dependent;
+    });
+
+    // A cycle would close if a dependent already leads to a dependency
+    const targets = new Set(dependencies);
+    dependents.forEach((dependent) => {
+      const path = this.findPath(dependent, targets);
+      if (path) {
+        throw new CycleError([
+          task.id,
+          ...path.map((node) => node.id),
+          task.id,
+        ]);
+      }
+    });
+
+    const node = new GraphNode(task);
+    this.nodes.set(task.id, node);
+    dependencies.forEach((depNode) => {
+      node.dependencies.push(depNode);
+      depNode.dependents.push(node);
+      node.inDegree++;
+    });
+    dependents.forEach((dependent) => {
+      dependent.dependencies.push(node);
+      node.dependents.push(dependent);
+      dependent.inDegree++;
+    });
+    return node;
+  }
+
+  // Take a task out of a linked graph again
+  removeTask(node: GraphNode): void {
+    this.nodes.delete(node.id);
+    node.dependencies.forEach((depNode) => {
+      depNode.dependents = depNode.dependents.filter((other) => other !== node);
+    });
+    node.dependents.forEach((dependent) => {
+      dependent.dependencies = dependent.dependencies.filter(
+        (other) => other !== node
+      );
+      dependent.inDegree--;
+    });
+  }
+
+  // The nodes from `from` to one of `targets` following dependents, both
+  // ends included, or undefined if none is reachable
+  private findPath(
+    from: GraphNode,
+    targets: Set<GraphNode>
+  ): GraphNode[] | undefined {
+    const visited = new Set<GraphNode>();
+    const visit = (node: GraphNode): GraphNode[] | undefined => {
+      if (targets.has(node)) return [node];
+      if (visited.has(node)) return undefined;
+      visited.add(node);
+      for (const dependent of node.dependents) {
+        const rest = visit(dependent);
+        if (rest) return [node, ...rest];
+      }
+      return undefined;
+    };
+    return visit(from);
+  }
+}
+
+// Topological sort with priority
+function topologicalSortWithPriority(graph: Graph): GraphNode[] {
+  const sortedNodes: GraphNode[] = [];
+  const queue: GraphNode[] = [];
+  // Work on a copy so the graph can be sorted again (e.g. to draw it)
+  const inDegrees = new Map<GraphNode, number>();
+
+  // Initialize queue with nodes having inDegree 0
+  graph.nodes.forEach((node) => {
+    inDegrees.set(node, node.inDegree);
+    if (node.inDegree === 0) {
+      queue.push(node);
+    }
+  });
+
+  while (queue.length > 0) {
+    // Sort the queue based on priority (higher priority first)
+    queue.sort((a, b) => (b.task.priority ?? 0) - (a.task.priority ?? 0));
+
+    const node = queue.shift()!;
+    sortedNodes.push(node);
+
+    // Decrease inDegree of dependents
+    node.dependents.forEach((dependent) => {
+      const inDegree = inDegrees.get(dependent)! - 1;
+      inDegrees.set(dependent, inDegree);
+      if (inDegree === 0) {
+        queue.push(dependent);
+      }
+    });
+  }
+
+  if (sortedNodes.length !== graph.nodes.size) {
+    throw new CycleError(findCycle(graph, new Set(sortedNodes)));
+  }
+  return sortedNodes;
+}
+
+// Find one cycle among the nodes a topological sort could not place. Each of
+// them still waits on an unplaced dependency, so walking those dependencies
+// must eventually revisit a node.
+function findCycle(graph: Graph, placed: Set<GraphNode>): string[] {
+  const start = Array.from(graph.nodes.values()).find(
+    (node) => !placed.has(node)
+  )!;
+  const path: GraphNode[] = [];
+  const seen = new Map<GraphNode, number>();
+
+  let node = start;
+  while (!seen.has(node)) {
+    seen.set(node, path.length);
+    path.push(node);
+    node = node.dependencies.find((dep) => !placed.has(dep))!;
+  }
+
+  // Walked from dependents to dependencies; flip it into execution order
+  const cycle = path.slice(seen.get(node)!).reverse();
+  return [...cycle, cycle[0]].map((cycleNode) => cycleNode.id);
+}
+
+// Every elementary cycle among the tasks, each in execution order and ending
+// where it started. Each cycle is found once, from its earliest task.
+function findAllCycles(
+  ids: string[],
+  dependencies: Map<string, string[]>
+): string[][] {
+  const cycles: string[][] = [];
+  const order = new Map(ids.map((id, index) => [id, index]));
+
+  ids.forEach((start) => {
+    const startIndex = order.get(start)!;
+    const path: string[] = [];
+    const onPath = new Set<string>();
+
+    // Walk from dependents to dependencies, only through later tasks
+    const visit = (id: string) => {
+      path.push(id);
+      onPath.add(id);
+      (dependencies.get(id) ?? []).forEach((dep) => {
+        if (dep === start) {
+          const cycle = [...path].reverse();
+          cycles.push([...cycle, cycle[0]]);
+        } else if (order.get(dep)! > startIndex && !onPath.has(dep)) {
+          visit(dep);
+        }
+      });
+      path.pop();
+      onPath.delete(id);
+    };
+    visit(start);
+  });
+
+  return cycles;
+}
+
+// Check the tasks of a sequence without running anything, reporting every
+// problem at once rather than the first one the graph trips over
+function validateTasks(
+  tasks: Task[],
+  config: SequenceConfig
+): ValidationResult {
+  const issues: ValidationIssue[] = [];
+  const issue = (
+    severity: ValidationIssue["severity"],
+    code: ValidationCode,
+    taskId: string,
+    message: string,
+    cycle?: string[]
+  ) => issues.push({ severity, code, taskId, message, cycle });
+
+  // The first layer with a name wins, as it would in the graph
+  const byId = new Map<string, Task>();
+  tasks.forEach((task) => {
+    if (byId.has(task.id)) {
+      issue("error", "duplicate-name", task.id, `Duplicate layer ${task.id}`);
+    } else {
+      byId.set(task.id, task);
+    }
+  });
+  const ids = Array.from(byId.keys());
+
+  // Tasks that can never start, and the known dependencies of every task
+  const broken = new Set<string>();
+  const dependencies = new Map<string, string[]>();
+  byId.forEach((task, id) => {
+    const known: string[] = [];
+    (task.dependencies ?? []).forEach((depId) => {
+      if (depId === id) {
+        issue("error", "self-dependency", id, `Task ${id} depends on itself`);
+        broken.add(id);
+      } else if (!byId.has(depId)) {
+        issue(
+          "error",
+          "missing-dependency",
+          id,
+          `Dependency ${depId} not found for task ${id}`
+        );
+        broken.add(id);
+      } else {
+        known.push(depId);
+      }
+    });
+    dependencies.set(id, known);
+  });
+
+  findAllCycles(ids, dependencies).forEach((cycle) => {
+    issue(
+      "error",
+      "cycle",
+      cycle[0],
+      `Graph has a cycle: ${cycle.join(" -> ")}`,
+      cycle
+    );
+    cycle.forEach((id) => broken.add(id));
+  });
+
+  // Anything downstream of a task that can never start can't start either
+  const reaches = (id: string, seen: Set<string>): string | undefined => {
+    if (seen.has(id)) return undefined;
+    seen.add(id);
+    for (const depId of dependencies.get(id)!) {
+      if (broken.has(depId)) return depId;
+      const ancestor = reaches(depId, seen);
+      if (ancestor) return ancestor;
+    }
+    return undefined;
+  };
+  ids
+    .filter((id) => !broken.has(id))
+    .forEach((id) => {
+      const ancestor = reaches(id, new Set());
+      if (ancestor) {
+        issue(
+          "error",
+          "unreachable",
+          id,
+          `Task ${id} can never run because ${ancestor} can't`
+        );
+      }
+    });
+
+  const capacities = resourceCapacities(config);
+  byId.forEach((task, id) => {
+    const problem = findResourceProblem(task, capacities);
+    if (problem) {
+      issue("error", "resource", id, problem);
+    }
+    if (task.rateLimit && !config.rateLimiters?.[task.rateLimit]) {
+      issue(
+        "error",
+        "rate-limit",
+        id,
+        `Task ${id} uses unknown rate limiter ${task.rateLimit}`
+      );
+    }
+  });
+
+  // Lint: what each action is handed versus what it declares. Actions also
+  // receive a TaskContext as their last argument, so one extra is fine.
+  byId.forEach((task, id) => {
+    if (task.map) return; // called per element, not with the dependencies
+    const arity = task.action.length;
+    const expected =
+      task.args || task.inject === "named"
+        ? 1
+        : (task.dependencies ?? []).length;
+    if (arity !== expected && arity !== expected + 1) {
+      issue(
+        "warning",
+        "arity-mismatch",
+        id,
+        `Task ${id} receives ${expected} argument(s) but its action declares ${arity}`
+      );
+    }
+  });
+
+  // Lint: a task with dependents whose artifact none of them reads
+  byId.forEach((task, id) => {
+    const dependents = Array.from(byId.values()).filter((other) =>
+      dependencies.get(other.id)!.includes(id)
+    );
+    if (dependents.length === 0) return;
+    const consumed = dependents.some((dependent) => {
+      if (dependent.args) {
+        return Object.values(dependent.args).some(
+          (argPath) => argPath.split(".")[0] === id
+        );
+      }
+      if (dependent.inject === "named" || dependent.when) {
+        return true; // handed every artifact by name; can't tell statically
+      }
+      return dependent.dependencies!.indexOf(id) < dependent.action.length;
+    });
+    if (!consumed) {
+      issue(
+        "warning",
+        "unused-artifact",
+        id,
+        `The artifact of ${id} is never used by ${dependents
+          .map((dependent) => dependent.id)
+          .join(", ")}`
+      );
+    }
+  });
+
+  const errors = issues.filter((found) => found.severity === "error");
+  return {
+    valid: errors.length === 0,
+    errors,
+    warnings: issues.filter((found) => found.severity === "warning"),
+  };
+}
+
+// Scheduling strategies. Each one orders the waiting tasks and picks the
+// first; ties fall back to the order the tasks became ready.
+function compareReadiness(a: ReadyTask, b: ReadyTask): number {
+  return a.readyTime - b.readyTime || a.order - b.order;
+}
+
+function selectFirst(
+  compare: (a: ReadyTask, b: ReadyTask) => number
+): SchedulingStrategy {
+  return {
+    select: (ready) =>
+      ready.reduce((best, candidate) =>
+        compare(candidate, best) < 0 ? candidate : best
+      ),
+  };
+}
+
+const schedulingStrategies: Record<SchedulerName, SchedulingStrategy> = {
+  fifo: selectFirst(compareReadiness),
+  lifo: selectFirst((a, b) => -compareReadiness(a, b)),
+  priority: selectFirst(
+    (a, b) => b.priority - a.priority || compareReadiness(a, b)
+  ),
+  // Start what the most work still waits on, so the run finishes sooner
+  "critical-path": selectFirst(
+    (a, b) =>
+      b.remainingWork - a.remainingWork ||
+      b.priority - a.priority ||
+      compareReadiness(a, b)
+  ),
+  // Tasks that never ran before go last, since nothing is known about them
+  "shortest-job-first": selectFirst(
+    (a, b) =>
+      (a.estimatedDuration ?? Infinity) - (b.estimatedDuration ?? Infinity) ||
+      compareReadiness(a, b)
+  ),
+};
+
+function resolveScheduler(
+  scheduler: SequenceConfig["scheduler"] = "fifo"
+): SchedulingStrategy {
+  if (typeof scheduler !== "string") {
+    return scheduler;
+  }
+  if (!(scheduler in schedulingStrategies)) {
+    throw new SequenceError(`Unknown scheduler ${scheduler}`);
+  }
+  return schedulingStrategies[scheduler];
+}
+
+// The pools a sequence runs with: maxConcurrency slots plus the named
+// resources of its config
+function resourceCapacities(config: SequenceConfig): Record<string, number> {
+  return { ...config.resources, concurrency: config.maxConcurrency ?? 2 };
+}
+
+// Why a task could never get what it uses, if so
+function findResourceProblem(
+  task: Task,
+  capacities: Record<string, number>
+): string | undefined {
+  for (const [resource, amount] of Object.entries(task.uses ?? {})) {
+    if (!(resource in capacities)) {
+      return `Task ${task.id} uses unknown resource ${resource}`;
+    }
+    if (amount > capacities[resource]) {
+      return `Task ${task.id} needs ${amount} ${resource} but only ${capacities[resource]} exist`;
+    }
+  }
+  return undefined;
+}
+
+interface ResourceWaiter {
+  candidate: ReadyTask;
+  grant: () => void;
+  blockedSince: Map<string, number>; // resources currently short
+  waitTimes: Record<string, number>;
+}
+
+// Counting semaphores for several resources at once. A task gets everything
+// it uses in one step or waits holding nothing, so tasks can't deadlock on
+// each other. Units are handed out once the tasks queueing in the same turn
+// of the event loop (e.g. all dependents of a task that just finished) have
+// arrived, so the scheduler picks among all of them rather than the first
+// to ask getting in.
+class ResourcePool {
+  private available: Map<string, number>;
+  private waiters: ResourceWaiter[] = [];
+  private dispatchScheduled = false;
+
+  constructor(
+    public readonly capacities: Record<string, number>,
+    private scheduler: SchedulingStrategy = schedulingStrategies.fifo
+  ) {
+    this.available = new Map(Object.entries(capacities));
+  }
+
+  // Resolves with how long each resource held the task up
+  async acquire(
+    candidate: ReadyTask,
+    signal?: AbortSignal
+  ): Promise<Record<string, number>> {
+    if (signal?.aborted) {
+      throw createAbortError(signal);
+    }
+    return new Promise((resolve, reject) => {
+      const onAbort = () => {
+        // Give up our place in line without consuming anything
+        this.waiters = this.waiters.filter((other) => other !== waiter);
+        reject(createAbortError(signal!));
+      };
+      const waiter: ResourceWaiter = {
+        candidate,
+        blockedSince: new Map(),
+        waitTimes: {},
+        grant: () => {
+          signal?.removeEventListener("abort", onAbort);
+          resolve(waiter.waitTimes);
+        },
+      };
+      this.track(waiter, Date.now());
+      this.waiters.push(waiter);
+      signal?.addEventListener("abort", onAbort, { once: true });
+      this.scheduleDispatch();
+    });
+  }
+
+  release(uses: ResourceUsage): void {
+    Object.entries(uses).forEach(([resource, amount]) => {
+      this.available.set(resource, this.available.get(resource)! + amount);
+    });
+    this.scheduleDispatch();
+  }
+
+  private scheduleDispatch(): void {
+    if (this.dispatchScheduled) return;
+    this.dispatchScheduled = true;
+    setImmediate(() => {
+      this.dispatchScheduled = false;
+      this.dispatch();
+    });
+  }
+
+  // Grant waiting tasks that fit, in the order the scheduler picks them
+  private dispatch(): void {
+    const now = Date.now();
+    for (;;) {
+      const fitting = this.waiters.filter(
+        (waiter) => this.shortOf(waiter.candidate.uses).length === 0
+      );
+      if (fitting.length === 0) break;
+      const selected = this.scheduler.select(
+        fitting.map((waiter) => waiter.candidate)
+      );
+      const next = fitting.find((waiter) => waiter.candidate === selected)!;
+      this.waiters = this.waiters.filter((waiter) => waiter !== next);
+      this.track(next, now);
+      this.take(next.candidate.uses);
+      next.grant();
+    }
+    this.waiters.forEach((waiter) => this.track(waiter, now));
+  }
+
+  private shortOf(uses: ResourceUsage): string[] {
+    return Object.entries(uses)
+      .filter(([resource, amount]) => this.available.get(resource)! < amount)
+      .map(([resource]) => resource);
+  }
+
+  private take(uses: ResourceUsage): void {
+    Object.entries(uses).forEach(([resource, amount]) => {
+      this.available.set(resource, this.available.get(resource)! - amount);
+    });
+  }
+
+  // Start or stop the clock on each resource the waiter is short of
+  private track(waiter: ResourceWaiter, now: number): void {
+    const short = this.shortOf(waiter.candidate.uses);
+    short.forEach((resource) => {
+      if (!waiter.blockedSince.has(resource)) {
+        waiter.blockedSince.set(resource, now);
+      }
+    });
+    waiter.blockedSince.forEach((since, resource) => {
+      if (!short.includes(resource)) {
+        waiter.waitTimes[resource] =
+          (waiter.waitTimes[resource] ?? 0) + (now - since);
+        waiter.blockedSince.delete(resource);
+      }
+    });
+  }
+}
+
+// Token bucket. A caller that finds it empty reserves the next token and
+// waits for it, so callers are served in the order they asked.
+class RateLimiter {
+  private available: number;
+  private lastRefill = Date.now();
+
+  constructor(public readonly options: RateLimitOptions) {
+    if (!(options.tokens > 0) || !(options.interval > 0)) {
+      throw new SequenceError(
+        "A rate limit needs a positive number of tokens and interval"
+      );
+    }
+    this.available = this.capacity;
+  }
+
+  private get capacity(): number {
+    return this.options.burst ?? this.options.tokens;
+  }
+
+  // Resolves with how long the caller was held back, in ms
+  async acquire(signal?: AbortSignal): Promise<number> {
+    if (signal?.aborted) {
+      throw createAbortError(signal);
+    }
+    this.refill();
+    this.available -= 1;
+    if (this.available >= 0) {
+      return 0;
+    }
+    const wait = Math.ceil(
+      (-this.available * this.options.interval) / this.options.tokens
+    );
+    try {
+      await delay(wait, signal);
+    } catch (error) {
+      // Hand the reserved token back
+      this.available += 1;
+      throw error;
+    }
+    return wait;
+  }
+
+  private refill(): void {
+    const now = Date.now();
+    this.available = Math.min(
+      this.capacity,
+      this.available +
+        ((now - this.lastRefill) * this.options.tokens) / this.options.interval
+    );
+    this.lastRefill = now;
+  }
+}
+
+// Execution functions
+async function executeTaskWithRetries(
+  task: Task,
+  args: any[],
+  run: RunContext,
+  scheduling: Pick<
+    ExecutionMetrics,
+    "readyTime" | "waitTime" | "resourceWaitTimes"
+  > = {},
+  action: Task["action"] = task.action
+): Promise<any> {
+  const { executionStart, signal, logger, emit } = run;
+  return tracer.startActiveSpan(`Task ${task.id}`, async (span) => {
+    if (task.spawnedBy) {
+      span.setAttribute("task.spawned_by", task.spawnedBy);
+    }
+    let attempts = 0;
+    const retryPolicy = task.retry ?? {};
+    const maxAttempts = retryPolicy.maxRetries ?? 0;
+    let retryDelay = retryPolicy.delay ?? 0;
+    // Deadline covering every attempt and the delays between them
+    const deadline =
+      task.totalTimeout !== undefined
+        ? Date.now() + task.totalTimeout
+        : Infinity;
+
+    try {
+      while (attempts <= maxAttempts) {
+        let startTime = Date.now();
+        const spawned: string[] = []; // by this attempt
+        try {
+          if (signal.aborted) {
+            throw createAbortError(signal);
+          }
+          const limiter = task.rateLimit
+            ? run.rateLimiters.get(task.rateLimit)
+            : undefined;
+          const throttled = (await limiter?.acquire(signal)) ?? 0;
+          if (throttled > 0) {
+            span.addEvent(`Attempt ${attempts + 1} throttled`, {
+              "task.rate_limit.name": task.rateLimit,
+              "task.rate_limit.delay.ms": throttled,
+            });
+            log(
+              logger,
+              "debug",
+              `Task ${task.id} throttled by ${task.rateLimit} for ${throttled}ms`,
+              { taskId: task.id, attempt: attempts + 1, delay: throttled },
+              executionStart
+            );
+          }
+          log(
+            logger,
+            "info",
+            `Starting Task ${task.id}`,
+            { taskId: task.id, attempt: attempts + 1 },
+            executionStart
+          );
+          log(
+            logger,
+            "debug",
+            `Task ${task.id} arguments`,
+            { taskId: task.id, data: args },
+            executionStart
+          );
+          startTime = Date.now();
+          task.attempts = attempts + 1;
+          emit({ type: "task:start", taskId: task.id, attempt: attempts + 1 });
+
+          // Each attempt gets its own signal so a timeout only stops this attempt
+          const attemptController = new AbortController();
+          const forwardAbort = () => attemptController.abort(signal.reason);
+          signal.addEventListener("abort", forwardAbort, { once: true });
+
+          const context: TaskContext = {
+            taskId: task.id,
+            attempt: attempts + 1,
+            signal: attemptController.signal,
+            spawn: (layer) => {
+              run.spawn!(layer, task.id);
+              spawned.push(layer.name);
+            },
+          };
+          const attemptTimeout = task.timeout ?? Infinity;
+          const remaining = deadline - startTime;
+          let result: any;
+          try {
+            result = await withTimeout(
+              Promise.resolve(action(...args, context)),
+              Math.min(attemptTimeout, remaining),
+              () => {
+                const timeoutError =
+                  attemptTimeout <= remaining
+                    ? new TaskTimeoutError(task.id, attemptTimeout, "attempt")
+                    : new TaskTimeoutError(
+                        task.id,
+                        task.totalTimeout!,
+                        "total"
+                      );
+                attemptController.abort(timeoutError);
+                return timeoutError;
+              }
+            );
+          } finally {
+            signal.removeEventListener("abort", forwardAbort);
+          }
+
+          const endTime = Date.now();
+          task.metrics = {
+            startTime,
+            endTime,
+            duration: endTime - startTime,
+            ...scheduling,
+          };
+          task.status = "success";
+          emit({
+            type: "task:success",
+            taskId: task.id,
+            attempt: attempts + 1,
+            artifact: result,
+            metrics: task.metrics,
+          });
+
+          log(
+            logger,
+            "success",
+            `Completed Task ${task.id}`,
+            { taskId: task.id, attempt: attempts + 1 },
+            executionStart
+          );
+          log(
+            logger,
+            "debug",
+            `Task ${task.id} artifact`,
+            { taskId: task.id, data: result },
+            executionStart
+          );
+
+          span.setStatus({ code: opentelemetry.SpanStatusCode.OK });
+          return result;
+        } catch (error: any) {
+          if (signal.aborted) {
+            // Whatever the action threw, it was stopped on purpose
+            span.addEvent("Task cancelled");
+            span.setStatus({
+              code: opentelemetry.SpanStatusCode.ERROR,
+              message: "cancelled",
+            });
+            log(
+              logger,
+              "warning",
+              `Task ${task.id} cancelled`,
+              { taskId: task.id },
+              executionStart
+            );
+            task.status = "cancelled";
+            emit({
+              type: "task:failed",
+              taskId: task.id,
+              attempt: attempts + 1,
+              error: createAbortError(signal),
+              cancelled: true,
+            });
+            throw createAbortError(signal);
+          }
+          // What the failed attempt spawned shouldn't run unless it has started
+          run.retract?.(spawned);
+          attempts++;
+          const timedOut = error instanceof TaskTimeoutError;
+          if (timedOut) {
+            span.addEvent(`Attempt ${attempts} timed out`, {
+              "task.timeout.ms": error.timeout,
+              "task.timeout.scope": error.scope,
+            });
+          } else {
+            span.addEvent(`Attempt ${attempts} failed: ${error.message}`);
+          }
+
+          const retryable =
+            attempts <= maxAttempts &&
+            (retryPolicy.retryOn?.(error, attempts) ?? true);
+          if (retryable) {
+            retryDelay = computeRetryDelay(
+              retryPolicy,
+              attempts,
+              retryDelay,
+              error
+            );
+          } else if (attempts <= maxAttempts) {
+            span.addEvent(`Attempt ${attempts} error is not retryable`);
+          }
+
+          // Out of time for another attempt, even if retries remain
+          const outOfTime = Date.now() + retryDelay >= deadline;
+          if (!retryable || outOfTime) {
+            // Report the total timeout only when time actually ran out: an
+            // attempt timed out or the deadline passed. An error that merely
+            // leaves no time to retry is kept as is.
+            const finalError =
+              retryable &&
+              (timedOut ? error.scope === "attempt" : Date.now() >= deadline)
+                ? new TaskTimeoutError(
+                    task.id,
+                    task.totalTimeout!,
+                    "total",
+                    error
+                  )
+                : error;
+            const endTime = Date.now();
+            task.metrics = {
+              startTime,
+              endTime,
+              duration: endTime - startTime,
+              timedOut: finalError instanceof TaskTimeoutError,
+              ...scheduling,
+            };
+            span.setStatus({
+              code: opentelemetry.SpanStatusCode.ERROR,
+              message: finalError.message,
+            });
+            log(
+              logger,
+              "error",
+              retryable || attempts > maxAttempts
+                ? `Task ${task.id} failed after retries: ${finalError.message}`
+                : `Task ${task.id} failed with a non-retryable error: ${finalError.message}`,
+              { taskId: task.id, attempt: attempts, error: finalError },
+              executionStart
+            );
+            task.status = "failed";
+            task.error = finalError;
+            emit({
+              type: "task:failed",
+              taskId: task.id,
+              attempt: attempts,
+              error: finalError,
+              cancelled: false,
+            });
+            throw finalError;
+          }
+          log(
+            logger,
+            "warning",
+            `Task ${task.id} failed on attempt ${attempts}: ${error.message}`,
+            { taskId: task.id, attempt: attempts, error },
+            executionStart
+          );
+          log(
+            logger,
+            "info",
+            `Retrying Task ${task.id} in ${retryDelay}ms`,
+            { taskId: task.id, attempt: attempts, retryDelay },
+            executionStart
+          );
+          emit({
+            type: "task:retry",
+            taskId: task.id,
+            attempt: attempts,
+            error,
+            delay: retryDelay,
+          });
+          await delay(retryDelay, signal).catch(() => {
+            // Cancelled while waiting; the next iteration reports it
+          });
+        }
+      }
+    } finally {
+      span.end();
+    }
+  });
+}
+
+// Run a map task: one child task per element, at most map.concurrency at a
+// time. Once more than maxFailures elements fail, the rest are cancelled.
+async function executeMapTask(
+  task: Task,
+  items: any,
+  run: RunContext,
+  scheduling: Pick<
+    ExecutionMetrics,
+    "readyTime" | "waitTime" | "resourceWaitTimes"
+  > = {}
+): Promise<any[]> {
+  const { executionStart, signal, logger, emit } = run;
+  const { concurrency = 2, maxFailures = 0 } = task.map!;
+  return tracer.startActiveSpan(`Task ${task.id}`, async (span) => {
+    const startTime = Date.now();
+    task.attempts = 1;
+    emit({ type: "task:start", taskId: task.id, attempt: 1 });
+    log(
+      logger,
+      "info",
+      `Starting Task ${task.id}`,
+      { taskId: task.id, attempt: 1 },
+      executionStart
+    );
+
+    // Aborted with the run, or to stop the remaining elements early
+    const mapController = new AbortController();
+    const forwardAbort = () => mapController.abort(signal.reason);
+    signal.addEventListener("abort", forwardAbort, { once: true });
+    // Elements spawn tasks on behalf of the map task
+    const childRun: RunContext = {
+      ...run,
+      signal: mapController.signal,
+      spawn: (layer) => run.spawn!(layer, task.id),
+    };
+
+    const finish = () => {
+      const endTime = Date.now();
+      task.metrics = {
+        startTime,
+        endTime,
+        duration: endTime - startTime,
+        ...scheduling,
+      };
+    };
+
+    try {
+      if (!Array.isArray(items)) {
+        throw new SequenceError(
+          `Map task ${task.id} expected an array at ${task.map!.over}`
+        );
+      }
+      span.setAttribute("task.map.size", items.length);
+      task.children = items.map((_, index) => ({
+        id: `${task.id}[${index}]`,
+        action: task.action,
+        retry: task.retry,
+        timeout: task.timeout,
+        totalTimeout: task.totalTimeout,
+        rateLimit: task.rateLimit,
+      }));
+
+      const results: any[] = new Array(items.length).fill(undefined);
+      const failures: { index: number; error: any }[] = [];
+      let next = 0;
+      const worker = async () => {
+        while (next < items.length && !mapController.signal.aborted) {
+          const index = next++;
+          try {
+            const child = task.children![index];
+            results[index] = await executeTaskWithRetries(
+              child,
+              [items[index], index],
+              childRun
+            );
+            child.artifact = results[index];
+          } catch (error) {
+            // Stopped along with the rest, not a failure of its own
+            if (mapController.signal.aborted) return;
+            failures.push({ index, error });
+            if (failures.length > maxFailures) {
+              mapController.abort(
+                new MapTaskError(task.id, failures, items.length)
+              );
+            }
+          }
+        }
+      };
+      await Promise.all(
+        Array.from({ length: Math.min(concurrency, items.length) }, worker)
+      );
+      task.children.forEach((child) => {
+        child.status ??= "cancelled"; // never started
+      });
+
+      if (signal.aborted) {
+        throw createAbortError(signal);
+      }
+      if (failures.length > maxFailures) {
+        throw new MapTaskError(task.id, failures, items.length);
+      }
+      if (failures.length > 0) {
+        span.addEvent(`${failures.length} element(s) failed within tolerance`, {
+          "task.map.failed_indexes": failures.map((failure) => failure.index),
+        });
+      }
+
+      finish();
+      task.status = "success";
+      emit({
+        type: "task:success",
+        taskId: task.id,
+        attempt: 1,
+        artifact: results,
+        metrics: task.metrics!,
+      });
+      log(
+        logger,
+        "success",
+        `Completed Task ${task.id}`,
+        { taskId: task.id, attempt: 1 },
+        executionStart
+      );
+      span.setStatus({ code: opentelemetry.SpanStatusCode.OK });
+      return results;
+    } catch (error: any) {
+      finish();
+      const cancelled = signal.aborted;
+      task.status = cancelled ? "cancelled" : "failed";
+      task.error = cancelled ? undefined : error;
+      span.setStatus({
+        code: opentelemetry.SpanStatusCode.ERROR,
+        message: cancelled ? "cancelled" : error.message,
+      });
+      log(
+        logger,
+        cancelled ? "warning" : "error",
+        cancelled
+          ? `Task ${task.id} cancelled`
+          : `Task ${task.id} failed: ${error.message}`,
+        { taskId: task.id, error },
+        executionStart
+      );
+      emit({
+        type: "task:failed",
+        taskId: task.id,
+        attempt: 1,
+        error: cancelled ? createAbortError(signal) : error,
+        cancelled,
+      });
+      throw cancelled ? createAbortError(signal) : error;
+    } finally {
+      signal.removeEventListener("abort", forwardAbort);
+      span.end();
+    }
+  });
+}
+
+// Tasks spawned during the run are added to the graph and to sortedNodes in
+// place, so the caller's compensations and report include them.
+async function executeTasksWithConcurrencyLimit(
+  graph: Graph,
+  sortedNodes: GraphNode[],
+  pool: ResourcePool,
+  run: RunContext
+): Promise<void> {
+  const { signal } = run;
+  // Spawned tasks run under the run's span, like the rest, not the spawner's
+  const runTraceContext = opentelemetry.context.active();
+
+  // Aborted either from outside or by a failing "abort" task, so that
+  // siblings still running are told to stop too
+  const runController = new AbortController();
+  const runSignal = runController.signal;
+  const taskRun: RunContext = { ...run, signal: runSignal };
+  const forwardAbort = () => runController.abort(signal.reason);
+  if (signal.aborted) {
+    forwardAbort();
+  } else {
+    signal.addEventListener("abort", forwardAbort, { once: true });
+  }
+
+  // Track in-degree at runtime: a node becomes ready as soon as all of its
+  // own dependencies have settled, regardless of what else is still running.
+  const pendingDependencies = new Map<GraphNode, number>();
+  sortedNodes.forEach((node) => {
+    pendingDependencies.set(node, node.dependencies.length);
+  });
+
+  // Preserve the priority order computed by the topological sort when several
+  // nodes become ready at the same moment
+  const sortOrder = new Map<GraphNode, number>();
+
+  // Estimated work left from each node to the end of the run, for schedulers
+  // that favour the critical path
+  const estimates = Array.from(run.durationEstimates.values());
+  const fallbackEstimate =
+    estimates.length > 0
+      ? estimates.reduce((sum, estimate) => sum + estimate, 0) /
+        estimates.length
+      : 1;
+  const remainingWork = new Map<GraphNode, number>();
+  // Worked out again whenever a spawned task changes the graph
+  const updateOrder = () => {
+    sortedNodes.forEach((node, index) => sortOrder.set(node, index));
+    [...sortedNodes].reverse().forEach((node) => {
+      remainingWork.set(
+        node,
+        (run.durationEstimates.get(node.id) ?? fallbackEstimate) +
+          Math.max(0, ...node.dependents.map((dep) => remainingWork.get(dep)!))
+      );
+    });
+  };
+  updateOrder();
+
+  // Decide whether a node whose dependencies have settled should be skipped
+  async function getSkipReason(node: GraphNode): Promise<SkipReason | null> {
+    const skippedDependency = node.dependencies.some(
+      (depNode) => depNode.task.status === "skipped"
+    );
+    if (
+      skippedDependency &&
+      (node.task.onDependencySkipped ?? "skip") === "skip"
+    ) {
+      return "dependency-skipped";
+    }
+    if (node.task.when) {
+      const shouldRun = await node.task.when(collectArtifacts(node), run.input);
+      if (!shouldRun) {
+        return "condition";
+      }
+    }
+    return null;
+  }
+
+  async function runNode(node: GraphNode): Promise<void> {
+    if (node.task.restored) {
+      // Finished in an earlier run; its artifact is already in place
+      log(
+        run.logger,
+        "info",
+        `Restored Task ${node.id} from checkpoint`,
+        { taskId: node.id },
+        run.executionStart
+      );
+      return;
+    }
+
+    let skipReason: SkipReason | null;
+    try {
+      skipReason = await getSkipReason(node);
+    } catch (error: any) {
+      // A throwing condition counts as a failure of the task itself
+      node.task.status = "failed";
+      node.task.error = error;
+      run.emit({
+        type: "task:failed",
+        taskId: node.id,
+        attempt: 0,
+        error,
+        cancelled: false,
+      });
+      if (node.task.onError === "abort") {
+        throw new TaskFailedError(node.id, 0, error);
+      }
+      node.task.artifact = null;
+      return;
+    }
+    if (skipReason) {
+      node.task.status = "skipped";
+      node.task.skipReason = skipReason;
+      node.task.artifact = undefined;
+      log(
+        run.logger,
+        "info",
+        `Skipping Task ${node.id} (${skipReason})`,
+        { taskId: node.id, reason: skipReason },
+        run.executionStart
+      );
+      run.emit({ type: "task:skipped", taskId: node.id, reason: skipReason });
+      await saveCheckpoint(node.task, run);
+      return;
+    }
+
+    run.emit({ type: "task:ready", taskId: node.id });
+    const readyTime = Date.now();
+    // A sub-sequence holds nothing itself; its tasks take from the same pool
+    const subSequence = node.task.subSequence;
+    const uses: ResourceUsage = subSequence
+      ? {}
+      : { concurrency: 1, ...node.task.uses };
+    let resourceWaitTimes: Record<string, number>;
+    try {
+      resourceWaitTimes = await pool.acquire(
+        {
+          taskId: node.id,
+          priority: node.task.priority ?? 0,
+          readyTime,
+          order: sortOrder.get(node)!,
+          estimatedDuration: run.durationEstimates.get(node.id),
+          uses,
+          remainingWork: remainingWork.get(node)!,
+        },
+        runSignal
+      );
+    } catch (error) {
+      node.task.status = "cancelled";
+      run.emit({ type: "task:skipped", taskId: node.id, reason: "cancelled" });
+      throw error;
+    }
+    try {
+      const dependencyResults = resolveArguments(node, run.input);
+      // Execute the action with dependency results
+      try {
+        const scheduling = {
+          readyTime,
+          waitTime: Date.now() - readyTime,
+          resourceWaitTimes,
+        };
+        const result = node.task.map
+          ? await executeMapTask(
+              node.task,
+              dependencyResults[0].items,
+              taskRun,
+              scheduling
+            )
+          : await executeTaskWithRetries(
+              node.task,
+              dependencyResults,
+              taskRun,
+              scheduling,
+              subSequence &&
+                ((input: any, ctx: TaskContext) =>
+                  subSequence.run(node.task, input, ctx.signal, pool))
+            );
+        // Store the artifact for dependents to use
+        node.task.artifact = result;
+        await saveCheckpoint(node.task, taskRun);
+      } catch (error) {
+        if (node.task.status === "cancelled") {
+          throw error;
+        }
+        if (node.task.onError === "abort") {
+          throw new TaskFailedError(node.id, node.task.attempts ?? 0, error);
+        } else {
+          // Continue execution without setting the artifact
+          node.task.artifact = null;
+        }
+      }
+    } finally {
+      pool.release(uses);
+    }
+  }
+
+  return new Promise<void>((resolve, reject) => {
+    const launched = new Set<GraphNode>();
+    const settled = new Set<GraphNode>();
+    let running = 0;
+    let failure: Error | null = null;
+
+    // Only settle once nothing is in flight, so no task outlives the run
+    const settle = () => {
+      if (running > 0) return;
+      if (failure) {
+        signal.removeEventListener("abort", forwardAbort);
+        sortedNodes.forEach((node) => {
+          if (!node.task.status) {
+            node.task.status = "cancelled";
+            run.emit({
+              type: "task:skipped",
+              taskId: node.id,
+              reason: "cancelled",
+            });
+          }
+        });
+        reject(failure);
+      } else if (settled.size === sortedNodes.length) {
+        signal.removeEventListener("abort", forwardAbort);
+        resolve();
+      }
+    };
+
+    runSignal.addEventListener(
+      "abort",
+      () => {
+        failure = failure ?? createAbortError(runSignal);
+        settle();
+      },
+      { once: true }
+    );
+
+    const launch = (node: GraphNode) => {
+      running++;
+      launched.add(node);
+      runNode(node).then(
+        () => {
+          running--;
+          settled.add(node);
+          if (failure) {
+            settle();
+            return;
+          }
+
+          const readyNodes: GraphNode[] = [];
+          node.dependents.forEach((dependent) => {
+            const remaining = pendingDependencies.get(dependent)! - 1;
+            pendingDependencies.set(dependent, remaining);
+            if (remaining === 0) {
+              readyNodes.push(dependent);
+            }
+          });
+          readyNodes
+            .sort((a, b) => sortOrder.get(a)! - sortOrder.get(b)!)
+            .forEach(launch);
+
+          settle();
+        },
+        (error) => {
+          running--;
+          if (!failure) {
+            failure = error;
+            runController.abort(error);
+          }
+          settle();
+        }
+      );
+    };
+
+    taskRun.spawn = (layer, spawnedBy) => {
+      if (failure || settled.size === sortedNodes.length) {
+        throw new SequenceError(
+          `Cannot spawn Task ${layer.name}: the run is over`
+        );
+      }
+      if (graph.nodes.get(layer.name)?.task.spawnedBy === spawnedBy) {
+        return; // spawned again, e.g. by a retry
+      }
+      const task: Task = { ...run.createTask(layer), spawnedBy };
+      const problem = findResourceProblem(task, pool.capacities);
+      if (problem) {
+        throw new SequenceError(problem);
+      }
+      if (task.rateLimit && !run.rateLimiters.has(task.rateLimit)) {
+        throw new SequenceError(
+          `Task ${task.id} uses unknown rate limiter ${task.rateLimit}`
+        );
+      }
+      const requiredBy = (layer.requiredBy ?? []).filter(
+        (id) => !graph.nodes.get(id)?.task.restored
+      );
+      requiredBy.forEach((id) => {
+        const dependent = graph.nodes.get(id);
+        if (dependent && launched.has(dependent)) {
+          throw new SequenceError(
+            `Task ${id} has already started and cannot wait for Task ${task.id}`
+          );
+        }
+      });
+
+      const node = graph.insertTask(task, requiredBy);
+      sortedNodes.splice(
+        0,
+        sortedNodes.length,
+        ...topologicalSortWithPriority(graph)
+      );
+      updateOrder();
+      pendingDependencies.set(
+        node,
+        node.dependencies.filter((depNode) => !settled.has(depNode)).length
+      );
+      node.dependents.forEach((dependent) => {
+        pendingDependencies.set(
+          dependent,
+          pendingDependencies.get(dependent)! + 1
+        );
+      });
+      const spawner = graph.nodes.get(spawnedBy);
+      if (spawner) {
+        spawner.task.spawned = true;
+      }
+
+      opentelemetry.trace
+        .getActiveSpan()
+        ?.addEvent(`Spawned Task ${task.id}`, { "task.spawned": task.id });
+      log(
+        run.logger,
+        "info",
+        `Task ${spawnedBy} spawned Task ${task.id}`,
+        { taskId: task.id, spawnedBy },
+        run.executionStart
+      );
+      run.emit({ type: "task:spawned", taskId: task.id, spawnedBy });
+      if (pendingDependencies.get(node) === 0) {
+        opentelemetry.context.with(runTraceContext, () => launch(node));
+      }
+    };
+
+    // Newest first, so tasks spawned to depend on each other go together
+    taskRun.retract = (taskIds) => {
+      const readyNodes: GraphNode[] = [];
+      [...taskIds].reverse().forEach((id) => {
+        const node = graph.nodes.get(id);
+        if (!node?.task.spawnedBy || launched.has(node)) return;
+        graph.removeTask(node);
+        pendingDependencies.delete(node);
+        node.dependents.forEach((dependent) => {
+          const remaining = pendingDependencies.get(dependent)! - 1;
+          pendingDependencies.set(dependent, remaining);
+          if (remaining === 0) {
+            readyNodes.push(dependent);
+          }
+        });
+        log(
+          run.logger,
+          "info",
+          `Dropped spawned Task ${id}, as the attempt that spawned it failed`,
+          { taskId: id, spawnedBy: node.task.spawnedBy },
+          run.executionStart
+        );
+      });
+      sortedNodes.splice(
+        0,
+        sortedNodes.length,
+        ...topologicalSortWithPriority(graph)
+      );
+      updateOrder();
+      readyNodes
+        .filter((node) => graph.nodes.has(node.id))
+        .forEach((node) =>
+          opentelemetry.context.with(runTraceContext, () => launch(node))
+        );
+    };
+
+    if (runSignal.aborted) {
+      failure = createAbortError(runSignal);
+      settle();
+      return;
+    }
+    sortedNodes
+      .filter((node) => node.dependencies.length === 0)
+      .forEach(launch);
+    settle();
+  });
+}
+
+// Undo completed tasks after an abort. Compensations run one at a time in
+// reverse topological order, so a task is undone before what it depended on.
+async function executeCompensations(
+  sortedNodes: GraphNode[],
+  reason: any,
+  run: RunContext
+): Promise<CompensationReport[]> {
+  const { executionStart, logger } = run;
+  const reports: CompensationReport[] = [];
+  const completedNodes = sortedNodes
+    .filter((node) => node.task.status === "success" && node.task.compensate)
+    .reverse();
+
+  for (const node of completedNodes) {
+    await tracer.startActiveSpan(`Compensate ${node.id}`, async (span) => {
+      const startTime = Date.now();
+      log(
+        logger,
+        "info",
+        `Compensating Task ${node.id}`,
+        { taskId: node.id },
+        executionStart
+      );
+      try {
+        await Promise.resolve(
+          node.task.compensate!(node.task.artifact, {
+            taskId: node.id,
+            input: run.input,
+            reason,
+          })
+        );
+        const endTime = Date.now();
+        reports.push({
+          taskId: node.id,
+          status: "success",
+          metrics: { startTime, endTime, duration: endTime - startTime },
+        });
+        span.setStatus({ code: opentelemetry.SpanStatusCode.OK });
+        log(
+          logger,
+          "success",
+          `Compensated Task ${node.id}`,
+          { taskId: node.id },
+          executionStart
+        );
+      } catch (error: any) {
+        // Keep going: one failed undo shouldn't leave the others undone
+        const endTime = Date.now();
+        reports.push({
+          taskId: node.id,
+          status: "failed",
+          error,
+          metrics: { startTime, endTime, duration: endTime - startTime },
+        });
+        span.setStatus({
+          code: opentelemetry.SpanStatusCode.ERROR,
+          message: error.message,
+        });
+        log(
+          logger,
+          "error",
+          `Compensation for Task ${node.id} failed: ${error.message}`,
+          { taskId: node.id, error },
+          executionStart
+        );
+      } finally {
+        span.end();
+      }
+    });
+  }
+  return reports;
+}
+
+// Find what bounded a run: walk back from the task that finished last through
+// the dependency that finished last, since that is what made each task ready.
+// Slack comes from a backward pass, as in the critical path method: a task
+// must finish before each dependent had to start for the run to end on time.
+function analyzeCriticalPath(sortedNodes: GraphNode[]): CriticalPathAnalysis {
+  const timings = new Map<GraphNode, TaskTiming>();
+  sortedNodes.forEach((node) => {
+    const metrics = node.task.metrics;
+    if (!metrics || node.task.restored) return;
+    const readyTime = metrics.readyTime ?? metrics.startTime;
+    const startTime = readyTime + (metrics.waitTime ?? 0);
+    timings.set(node, {
+      taskId: node.id,
+      readyTime,
+      startTime,
+      endTime: metrics.endTime,
+      waitTime: startTime - readyTime,
+      executionTime: metrics.endTime - startTime,
+      slack: 0,
+      critical: false,
+    });
+  });
+
+  const analysis: CriticalPathAnalysis = {
+    path: [],
+    tasks: {},
+    totalWaitTime: 0,
+    totalExecutionTime: 0,
+  };
+  if (timings.size === 0) return analysis;
+
+  const runEnd = Math.max(
+    ...Array.from(timings.values()).map((timing) => timing.endTime)
+  );
+  const latestFinish = new Map<GraphNode, number>();
+  [...sortedNodes].reverse().forEach((node) => {
+    const timing = timings.get(node);
+    if (!timing) return;
+    const dependentStarts = node.dependents
+      .filter((dependent) => latestFinish.has(dependent))
+      .map(
+        (dependent) =>
+          latestFinish.get(dependent)! - timings.get(dependent)!.executionTime
+      );
+    latestFinish.set(node, Math.min(runEnd, ...dependentStarts));
+    timing.slack = Math.max(0, latestFinish.get(node)! - timing.endTime);
+  });
+
+  const lastFinished = (nodes: GraphNode[]) =>
+    nodes
+      .filter((node) => timings.has(node))
+      .reduce<GraphNode | undefined>(
+        (latest, node) =>
+          !latest || timings.get(node)!.endTime > timings.get(latest)!.endTime
+            ? node
+            : latest,
+        undefined
+      );
+  let node = lastFinished(sortedNodes);
+  while (node) {
+    timings.get(node)!.critical = true;
+    analysis.path.unshift(node.id);
+    node = lastFinished(node.dependencies);
+  }
+
+  timings.forEach((timing) => {
+    analysis.tasks[timing.taskId] = timing;
+    analysis.totalWaitTime += timing.waitTime;
+    analysis.totalExecutionTime += timing.executionTime;
+  });
+  return analysis;
+}
+
+// Timeline generation function
+interface TimelineOptions {
+  // Also draw the tasks of sub-sequences and the elements of map layers,
+  // indented under their layer
+  expand?: boolean;
+}
+
+function generateTimeline(report: RunReport, options: TimelineOptions = {}) {
+  console.log(chalk.magenta("\n--- Execution Timeline ---\n"));
+  const executionStart = report.startTime;
+  const byStartTime = (tasks: TaskReport[]) =>
+    tasks
+      .filter((task) => task.metrics && !task.restored)
+      .sort((a, b) => a.metrics!.startTime - b.metrics!.startTime);
+  const sortedTasks = byStartTime(Object.values(report.tasks));
+  // Each row is a task with how deeply it is nested under its layer
+  const rows: { task: TaskReport; depth: number }[] = [];
+  const addRows = (tasks: TaskReport[], depth: number) =>
+    tasks.forEach((task) => {
+      rows.push({ task, depth });
+      if (options.expand && task.children) {
+        addRows(byStartTime(task.children), depth + 1);
+      }
+    });
+  addRows(sortedTasks, 0);
+  // ▸ marks a layer with hidden children, ▾ one whose children are shown,
+  // and + a task spawned during the run
+  const labelOf = (task: TaskReport, depth: number) =>
+    `${"  ".repeat(depth)}${task.spawnedBy ? "+" : ""}${task.id}${
+      task.children?.length ? (options.expand ? " ▾" : " ▸") : ""
+    }`;
+  const skippedTasks = Object.values(report.tasks).filter(
+    (task) => task.status === "skipped" && !task.restored
+  );
+  const restoredTasks = Object.values(report.tasks).filter(
+    (task) => task.restored
+  );
+  if (sortedTasks.length === 0) {
+    console.log(chalk.gray("No tasks were executed."));
+    return;
+  }
+
+  // Tasks overlap, so the run ends with whichever task finished last, not
+  // with the one that started last
+  const totalDuration = Math.max(
+    1,
+    Math.max(...sortedTasks.map((task) => task.metrics!.endTime)) -
+      executionStart
+  );
+
+  const terminalWidth = process.stdout.columns || 80;
+  const padding = 2;
+  const availableWidth = terminalWidth - padding * 2;
+
+  // Calculate the width of the first column
+  const maxNameLength = Math.max(
+    ...rows.map(({ task, depth }) => labelOf(task, depth).length),
+    ...[...skippedTasks, ...restoredTasks].map((task) => task.id.length)
+  );
+  const nameColumnWidth = maxNameLength + 5;
+
+  // Calculate widths for progress bar and time columns
+  const remainingWidth = availableWidth - nameColumnWidth - 3; // 3 for border characters
+  const progressBarWidth = Math.floor(remainingWidth * 0.7);
+  const timeColumnWidth = remainingWidth - progressBarWidth;
+
+  let output = "\n" + "─".repeat(terminalWidth) + "\n";
+  output += `${" ".repeat(padding)}${"Task Name".padEnd(
+    nameColumnWidth
+  )}│${"Progress".padEnd(progressBarWidth)}│${"Execution Time".padEnd(
+    timeColumnWidth
+  )}${" ".repeat(padding)}\n`;
+  output += "─".repeat(terminalWidth) + "\n";
+
+  rows.forEach(({ task, depth }) => {
+    const metric = task.metrics!;
+    const startOffset = Math.floor(
+      ((metric.startTime - executionStart) / totalDuration) * progressBarWidth
+    );
+    const duration = Math.max(
+      1,
+      Math.floor((metric.duration / totalDuration) * progressBarWidth)
+    );
+
+    // Nested tasks aren't part of the analysis, and may share a layer's name
+    const timing = depth === 0 ? report.criticalPath.tasks[task.id] : undefined;
+    // Time spent waiting for a concurrency slot is drawn as a dashed lead-in;
+    // earlier attempts of a retried task are left blank
+    const offsetOf = (time: number) =>
+      Math.min(
+        startOffset,
+        Math.floor(((time - executionStart) / totalDuration) * progressBarWidth)
+      );
+    const waitOffset = timing ? offsetOf(timing.readyTime) : startOffset;
+    const slotOffset = timing ? offsetOf(timing.startTime) : startOffset;
+
+    const nameColumn = labelOf(task, depth).padEnd(nameColumnWidth);
+    // Timed out attempts are drawn hatched so they stand out from real work
+    const barChar = metric.timedOut ? "▒" : "█";
+    const bar = barChar.repeat(duration);
+    const progressBar =
+      " ".repeat(waitOffset) +
+      "╌".repeat(slotOffset - waitOffset) +
+      " ".repeat(startOffset - slotOffset) +
+      (timing?.critical ? chalk.red(bar) : bar) +
+      " ".repeat(Math.max(0, progressBarWidth - startOffset - duration));
+
+    const startStr = `+${((metric.startTime - executionStart) / 1000).toFixed(
+      3
+    )}s`;
+    const endStr = `+${((metric.endTime - executionStart) / 1000).toFixed(3)}s`;
+    const durationStr = `(${(metric.duration / 1000).toFixed(3)}s${
+      metric.timedOut ? ", timed out" : ""
+    })`;
+    const slackStr = !timing
+      ? ""
+      : timing.critical
+      ? " critical"
+      : ` slack ${(timing.slack / 1000).toFixed(3)}s`;
+    const timeColumn =
+      `${startStr} to ${endStr} ${durationStr}${slackStr}`.padEnd(
+        timeColumnWidth
+      );
+
+    output += `${" ".repeat(padding)}${
+      timing?.critical ? chalk.red.bold(nameColumn) : nameColumn
+    }│${progressBar}│${timeColumn}${" ".repeat(padding)}\n`;
+  });
+
+  // Skipped tasks never ran, so they get a dotted row instead of a bar
+  skippedTasks.forEach((task) => {
+    const nameColumn = task.id.padEnd(nameColumnWidth);
+    const progressBar = "·".repeat(progressBarWidth);
+    const timeColumn = `skipped (${task.skipReason})`.padEnd(timeColumnWidth);
+
+    output += `${" ".repeat(
+      padding
+    )}${nameColumn}│${progressBar}│${timeColumn}${" ".repeat(padding)}\n`;
+  });
+
+  // Restored tasks ran in an earlier run, outside this timeline
+  restoredTasks.forEach((task) => {
+    const nameColumn = task.id.padEnd(nameColumnWidth);
+    const progressBar = "░".repeat(progressBarWidth);
+    const timeColumn = "restored from checkpoint".padEnd(timeColumnWidth);
+
+    output += `${" ".repeat(
+      padding
+    )}${nameColumn}│${progressBar}│${timeColumn}${" ".repeat(padding)}\n`;
+  });
+
+  output += "─".repeat(terminalWidth) + "\n";
+
+  console.log(chalk.yellow(output));
+  if (report.criticalPath.path.length > 0) {
+    console.log(
+      `${chalk.red.bold("Critical path:")} ${report.criticalPath.path.join(
+        " → "
+      )}  ${chalk.gray(
+        rows.some(({ task }) => task.spawnedBy)
+          ? "╌ waiting for a slot  + spawned during the run"
+          : "╌ waiting for a slot"
+      )}`
+    );
+  }
+}
+
+// Trace visualization function
+function visualizeTraces(spans: ReadableSpan[]) {
+  console.log(chalk.magenta("\n--- Trace Hierarchy ---\n"));
+
+  // Build a map of spans by their span ID
+  const spansById = new Map<string, ReadableSpan>();
+  spans.forEach((span) => {
+    spansById.set(span.spanContext().spanId, span);
+  });
+
+  // Build the tree of spans
+  const rootSpans: ReadableSpan[] = [];
+  const spanChildrenMap = new Map<string, ReadableSpan[]>();
+
+  spans.forEach((span) => {
+    const parentId = span.parentSpanId;
+    if (parentId && spansById.has(parentId)) {
+      const siblings = spanChildrenMap.get(parentId) || [];
+      siblings.push(span);
+      spanChildrenMap.set(parentId, siblings);
+    } else {
+      rootSpans.push(span);
+    }
+  });
+
+  // Function to recursively display spans
+  function displaySpan(span: ReadableSpan, indent: string) {
+    const duration =
+      (span.endTime[0] - span.startTime[0]) * 1e3 +
+      (span.endTime[1] - span.startTime[1]) / 1e6;
+
+    console.log(
+      `${indent}${chalk.blue(span.name)} ${chalk.gray(
+        `(${duration.toFixed(2)}ms)`
+      )}`
+    );
+
+    const children = spanChildrenMap.get(span.spanContext().spanId) || [];
+    children.forEach((childSpan) => {
+      displaySpan(childSpan, indent + "  ");
+    });
   }
 
   // Display the trace hierarchy
@@ -456,6 +2981,128 @@ function visualizeTraces() {
   console.log(chalk.magenta("\n--- End of Trace Hierarchy ---\n"));
 }
 
+// Function to log overall performance metrics
+function logPerformanceMetrics(report: RunReport) {
+  const { stats } = report;
+
+  console.log(
+    chalk.green("\n--- Sequence Execution Performance Metrics ---\n")
+  );
+  console.log(
+    `Total Execution Time: ${(report.duration / 1000).toFixed(3)} seconds`
+  );
+  console.log(`Total Tasks: ${stats.totalTasks}`);
+  console.log(`Successful Tasks: ${stats.successfulTasks}`);
+  console.log(`Failed Tasks: ${stats.failedTasks}`);
+  console.log(`Cancelled Tasks: ${stats.cancelledTasks}`);
+  console.log(`Skipped Tasks: ${stats.skippedTasks}`);
+  console.log(`Success Rate: ${stats.successRate.toFixed(2)}%`);
+  console.log(
+    `Average Task Duration: ${(stats.averageTaskDuration / 1000).toFixed(
+      3
+    )} seconds`
+  );
+  console.log(
+    `Maximum Task Duration: ${(stats.maxTaskDuration / 1000).toFixed(
+      3
+    )} seconds`
+  );
+  console.log(
+    `Minimum Task Duration: ${(stats.minTaskDuration / 1000).toFixed(
+      3
+    )} seconds`
+  );
+  console.log(
+    `Time Waiting for a Slot: ${(
+      report.criticalPath.totalWaitTime / 1000
+    ).toFixed(3)} seconds`
+  );
+  console.log(
+    `Time Executing: ${(report.criticalPath.totalExecutionTime / 1000).toFixed(
+      3
+    )} seconds`
+  );
+
+  // Summed over tasks; a task short of several resources counts for each
+  const resourceWaits: Record<string, number> = {};
+  Object.values(report.tasks).forEach((task) => {
+    Object.entries(task.metrics?.resourceWaitTimes ?? {}).forEach(
+      ([resource, time]) => {
+        resourceWaits[resource] = (resourceWaits[resource] ?? 0) + time;
+      }
+    );
+  });
+  Object.entries(resourceWaits).forEach(([resource, time]) => {
+    console.log(
+      `  Waiting for ${resource}: ${(time / 1000).toFixed(3)} seconds`
+    );
+  });
+}
+
+// Function to log the outcome of compensations run after an abort
+function logCompensations(report: RunReport) {
+  console.log(chalk.magenta("\n--- Compensations ---\n"));
+  report.compensations.forEach((compensation) => {
+    const duration = `(${(compensation.metrics.duration / 1000).toFixed(3)}s)`;
+    if (compensation.status === "success") {
+      console.log(
+        `${chalk.green("✔")} ${compensation.taskId} ${chalk.gray(duration)}`
+      );
+    } else {
+      console.log(
+        `${chalk.red("✘")} ${compensation.taskId} ${chalk.gray(
+          duration
+        )} ${chalk.red(compensation.error?.message ?? compensation.error)}`
+      );
+    }
+  });
+}
+
+// Print a run report to the console: timeline, metrics, compensations and
+// trace hierarchy
+function renderRunReport(
+  report: RunReport,
+  options: TimelineOptions = {}
+): void {
+  generateTimeline(report, options);
+  logPerformanceMetrics(report);
+  if (report.compensations.length > 0) {
+    logCompensations(report);
+  }
+  visualizeTraces(report.spans);
+}
+
+// Aggregate statistics over the tasks of a run
+function computeRunStats(tasks: Task[]): RunStats {
+  const successfulTasks = tasks.filter((task) => task.status === "success");
+  const failedTasks = tasks.filter((task) => task.status === "failed");
+  const cancelledTasks = tasks.filter((task) => task.status === "cancelled");
+  const skippedTasks = tasks.filter((task) => task.status === "skipped");
+  const consideredTasks = tasks.length - skippedTasks.length;
+
+  const taskDurations = successfulTasks.map((task) => task.metrics!.duration);
+  const averageTaskDuration =
+    taskDurations.length > 0
+      ? taskDurations.reduce((sum, duration) => sum + duration, 0) /
+        taskDurations.length
+      : 0;
+
+  return {
+    totalTasks: tasks.length,
+    successfulTasks: successfulTasks.length,
+    failedTasks: failedTasks.length,
+    cancelledTasks: cancelledTasks.length,
+    skippedTasks: skippedTasks.length,
+    successRate:
+      consideredTasks > 0
+        ? (successfulTasks.length / consideredTasks) * 100
+        : 0,
+    averageTaskDuration,
+    maxTaskDuration: taskDurations.length > 0 ? Math.max(...taskDurations) : 0,
+    minTaskDuration: taskDurations.length > 0 ? Math.min(...taskDurations) : 0,
+  };
+}
+
 // Function to assign levels to nodes
 function assignLevels(graph: Graph): Map<string, number> {
   const levels = new Map<string, number>();
@@ -475,6 +3122,80 @@ function assignLevels(graph: Graph): Map<string, number> {
   return levels;
 }
 
+// Work out levels, chains and the longest path without executing anything
+function createExecutionPlan(graph: Graph): ExecutionPlan {
+  const sortedNodes = topologicalSortWithPriority(graph);
+  const levels = assignLevels(graph);
+
+  const levelGroups: string[][] = [];
+  sortedNodes.forEach((node) => {
+    const level = levels.get(node.id)!;
+    (levelGroups[level] ??= []).push(node.id);
+  });
+
+  // A link continues a chain when nothing else hangs off either end of it
+  const continuesChain = (node: GraphNode) =>
+    node.dependencies.length === 1 &&
+    node.dependencies[0].dependents.length === 1;
+  const chains: string[][] = [];
+  sortedNodes
+    .filter((node) => !continuesChain(node))
+    .forEach((start) => {
+      const chain = [start.id];
+      let node = start;
+      while (
+        node.dependents.length === 1 &&
+        continuesChain(node.dependents[0])
+      ) {
+        node = node.dependents[0];
+        chain.push(node.id);
+      }
+      chains.push(chain);
+    });
+
+  // Longest path ending at each node; ties go to the earlier dependency in
+  // execution order
+  const longest = new Map<GraphNode, GraphNode[]>();
+  sortedNodes.forEach((node) => {
+    const best = node.dependencies
+      .map((dep) => longest.get(dep)!)
+      .reduce<GraphNode[]>(
+        (best, path) => (path.length > best.length ? path : best),
+        []
+      );
+    longest.set(node, [...best, node]);
+  });
+  const criticalPath = Array.from(longest.values()).reduce<GraphNode[]>(
+    (best, path) => (path.length > best.length ? path : best),
+    []
+  );
+
+  return {
+    order: sortedNodes.map((node) => node.id),
+    levels: levelGroups,
+    chains,
+    criticalPath: criticalPath.map((node) => node.id),
+  };
+}
+
+// Print an execution plan, e.g. to compare the shape of a sequence before and
+// after a change to its dependencies
+function renderExecutionPlan(plan: ExecutionPlan): void {
+  console.log(chalk.blue("\n--- Execution Plan ---\n"));
+  console.log(`${chalk.bold("Order:")} ${plan.order.join(", ")}`);
+  console.log(chalk.bold("Levels:"));
+  plan.levels.forEach((level, index) =>
+    console.log(`  ${index}: ${level.join(", ")}`)
+  );
+  console.log(chalk.bold("Chains:"));
+  plan.chains.forEach((chain) => console.log(`  ${chain.join(" → ")}`));
+  console.log(
+    `${chalk.bold("Critical path:")} ${chalk.yellow(
+      plan.criticalPath.join(" → ")
+    )}`
+  );
+}
+
 // Function to visualize the graph with colors and rounded nodes
 function visualizeGraph(graph: Graph): void {
   const levels = assignLevels(graph);
@@ -507,12 +3228,15 @@ function visualizeGraph(graph: Graph): void {
     width: number,
     height: number,
     text: string,
-    colorFn: (str: string) => string
+    colorFn: (str: string) => string,
+    dashed: boolean = false
   ) {
     const lines = [];
+    const horizontal = dashed ? "╌" : "─";
+    const vertical = dashed ? "╎" : "│";
 
     // Top border
-    let topBorder = "╭" + "─".repeat(width - 2) + "╮";
+    let topBorder = "╭" + horizontal.repeat(width - 2) + "╮";
     lines.push(topBorder);
 
     // Empty lines
@@ -526,15 +3250,19 @@ function visualizeGraph(graph: Graph): void {
         const leftPadding = Math.floor(padding / 2);
         const rightPadding = padding - leftPadding;
         let line =
-          "│" + " ".repeat(leftPadding) + text + " ".repeat(rightPadding) + "│";
+          vertical +
+          " ".repeat(leftPadding) +
+          text +
+          " ".repeat(rightPadding) +
+          vertical;
         lines.push(line);
       } else {
-        lines.push("│" + " ".repeat(width - 2) + "│");
+        lines.push(vertical + " ".repeat(width - 2) + vertical);
       }
     }
 
     // Bottom border
-    let bottomBorder = "╰" + "─".repeat(width - 2) + "╯";
+    let bottomBorder = "╰" + horizontal.repeat(width - 2) + "╯";
     lines.push(bottomBorder);
 
     // Draw lines onto the canvas
@@ -582,333 +3310,1280 @@ function visualizeGraph(graph: Graph): void {
 
     nodes.forEach((node, index) => {
       const x = (index + 1) * spacing;
-      const nodeWidth = 10;
+      const nodeWidth = Math.max(10, node.id.length + 4);
       const nodeHeight = 5;
-      const colorFn = nodeColors.get(node.id)!;
-      drawNode(x, y, nodeWidth, nodeHeight, node.id, colorFn);
+      // Skipped tasks are drawn dashed and dimmed
+      const skipped = node.task.status === "skipped";
+      const colorFn = skipped ? chalk.gray : nodeColors.get(node.id)!;
+      drawNode(x, y, nodeWidth, nodeHeight, node.id, colorFn, skipped);
       nodePositions.set(node.id, { x, y });
     });
   }
 
-  // Draw dependencies
-  graph.nodes.forEach((node) => {
-    const fromPos = nodePositions.get(node.id)!;
-    node.dependencies.forEach((dep) => {
-      const toPos = nodePositions.get(dep.id)!;
+  // Draw dependencies
+  graph.nodes.forEach((node) => {
+    const fromPos = nodePositions.get(node.id)!;
+    node.dependencies.forEach((dep) => {
+      const toPos = nodePositions.get(dep.id)!;
+
+      // Draw lines using box-drawing characters
+      const x1 = fromPos.x;
+      const y1 = fromPos.y - 3; // Top of the node
+      const x2 = toPos.x;
+      const y2 = toPos.y + 3; // Bottom of the dependency node
+
+      if (x1 === x2) {
+        // Vertical line
+        const yStart = Math.min(y1, y2);
+        const yEnd = Math.max(y1, y2);
+        for (let y = yStart + 1; y < yEnd; y++) {
+          if (y >= 0 && y < canvas.length) {
+            canvas[y][x1] = "│";
+          }
+        }
+      } else {
+        // Vertical line from fromNode upwards
+        const yStart = y1;
+        const yEnd = y1 - 2;
+        for (let y = yEnd; y < yStart; y++) {
+          if (y >= 0 && y < canvas.length) {
+            canvas[y][x1] = "│";
+          }
+        }
+        // Horizontal line
+        const xStart = Math.min(x1, x2);
+        const xEnd = Math.max(x1, x2);
+        const y = y1 - 2;
+        for (let x = xStart + 1; x < xEnd; x++) {
+          if (y >= 0 && y < canvas.length && x >= 0 && x < canvas[0].length) {
+            canvas[y][x] = "─";
+          }
+        }
+        // Vertical line down to toNode
+        const yStart2 = y2 + 2;
+        const yEnd2 = y2;
+        for (let y = yStart2; y > yEnd2; y--) {
+          if (y >= 0 && y < canvas.length) {
+            canvas[y][x2] = "│";
+          }
+        }
+        // Connectors
+        if (
+          y1 - 2 >= 0 &&
+          y1 - 2 < canvas.length &&
+          x2 >= 0 &&
+          x2 < canvas[0].length
+        ) {
+          canvas[y1 - 2][x2] = "┌";
+        }
+        if (
+          y2 + 2 >= 0 &&
+          y2 + 2 < canvas.length &&
+          x2 >= 0 &&
+          x2 < canvas[0].length
+        ) {
+          canvas[y2 + 2][x2] = "└";
+        }
+        if (
+          y1 - 2 >= 0 &&
+          y1 - 2 < canvas.length &&
+          x1 >= 0 &&
+          x1 < canvas[0].length
+        ) {
+          canvas[y1 - 2][x1] = x1 < x2 ? "┘" : "└";
+        }
+      }
+    });
+  });
+
+  // Print the canvas
+  const output = canvas.map((row) => row.join("")).join("\n");
+  console.log(output);
+}
+
+// Serialization. Functions can't be stored, so a definition refers to them by
+// the name they were registered under in an ActionRegistry.
+class ActionRegistry {
+  private actions: Map<string, (...args: any[]) => any> = new Map();
+
+  register(name: string, action: (...args: any[]) => any): this {
+    const existing = this.actions.get(name);
+    if (existing && existing !== action) {
+      throw new SequenceError(`Action ${name} is already registered`);
+    }
+    this.actions.set(name, action);
+    return this;
+  }
+
+  has(name: string): boolean {
+    return this.actions.has(name);
+  }
+
+  get(name: string): ((...args: any[]) => any) | undefined {
+    return this.actions.get(name);
+  }
+
+  // Register every function exported by a module under its export name,
+  // e.g. ActionRegistry.fromModule(await import("./actions"))
+  static fromModule(module: Record<string, any>): ActionRegistry {
+    const registry = new ActionRegistry();
+    Object.entries(module).forEach(([name, value]) => {
+      if (typeof value === "function") {
+        registry.register(name, value);
+      }
+    });
+    return registry;
+  }
+
+  nameOf(action: (...args: any[]) => any): string | undefined {
+    for (const [name, registered] of this.actions) {
+      if (registered === action) {
+        return name;
+      }
+    }
+    return undefined;
+  }
+}
+
+interface RetryPolicyDefinition
+  extends Omit<RetryPolicy, "retryOn" | "retryAfter"> {
+  retryOn?: string;
+  retryAfter?: string;
+}
+
+interface LayerDefinition {
+  name: string;
+  action: string;
+  dependsOn?: string[];
+  inject?: InjectionMode;
+  args?: ArgumentMapping;
+  retries?: number;
+  retryDelay?: number;
+  retry?: RetryPolicyDefinition;
+  timeout?: number;
+  totalTimeout?: number;
+  onError?: "continue" | "abort";
+  compensate?: string;
+  when?: string;
+  onDependencySkipped?: SkipPolicy;
+  priority?: number;
+  uses?: ResourceUsage;
+  rateLimit?: string;
+  map?: MapOptions;
+}
+
+// The file format of sequence.schema.json, written as JSON or YAML
+interface SequenceDefinition {
+  version: 1;
+  config?: Pick<
+    SequenceConfig,
+    "verbose" | "maxConcurrency" | "onDependencySkipped" | "resources"
+  > & {
+    scheduler?: SchedulerName;
+    rateLimiters?: Record<string, RateLimitOptions>;
+  };
+  input?: any; // static input parameters, used when build() gets none
+  layers: LayerDefinition[];
+}
+
+// The parts of JSON Schema that sequence.schema.json uses
+interface SchemaNode {
+  // Annotations, not checked
+  $schema?: string;
+  $id?: string;
+  title?: string;
+  description?: string;
+  $ref?: string;
+  $defs?: Record<string, SchemaNode>;
+  type?: "object" | "array" | "string" | "number" | "boolean";
+  const?: any;
+  enum?: any[];
+  minimum?: number;
+  exclusiveMinimum?: number;
+  minLength?: number;
+  required?: string[];
+  properties?: Record<string, SchemaNode>;
+  additionalProperties?: boolean | SchemaNode;
+  items?: SchemaNode;
+}
+
+const sequenceSchema = sequenceSchemaFile as SchemaNode;
+
+// Every keyword checkSchema understands. A schema using any other one would
+// silently be checked less strictly than it says, so it is rejected.
+const schemaKeywords: Record<keyof SchemaNode, true> = {
+  $schema: true,
+  $id: true,
+  title: true,
+  description: true,
+  $ref: true,
+  $defs: true,
+  type: true,
+  const: true,
+  enum: true,
+  minimum: true,
+  exclusiveMinimum: true,
+  minLength: true,
+  required: true,
+  properties: true,
+  additionalProperties: true,
+  items: true,
+};
+
+// Check a value against a node of sequence.schema.json, reporting each
+// mismatch under its path in the file
+function checkSchema(
+  value: any,
+  schema: SchemaNode,
+  path: string,
+  issue: (path: string, message: string) => void
+): void {
+  const unsupported = Object.keys(schema).find(
+    (keyword) => !Object.prototype.hasOwnProperty.call(schemaKeywords, keyword)
+  );
+  if (unsupported) {
+    throw new SequenceError(
+      `sequence.schema.json uses "${unsupported}", which is not supported`
+    );
+  }
+  if (schema.$ref) {
+    const name = schema.$ref.replace("#/$defs/", "");
+    checkSchema(value, sequenceSchema.$defs![name], path, issue);
+    return;
+  }
+  const at = path || "$";
+  const isObject =
+    typeof value === "object" && value !== null && !Array.isArray(value);
+  const typeMatches =
+    schema.type === undefined ||
+    (schema.type === "object"
+      ? isObject
+      : schema.type === "array"
+      ? Array.isArray(value)
+      : typeof value === schema.type);
+  if (!typeMatches) {
+    issue(
+      at,
+      `must be ${
+        schema.type === "array" || schema.type === "object" ? "an" : "a"
+      } ${schema.type}`
+    );
+    return;
+  }
+  if ("const" in schema && value !== schema.const) {
+    issue(at, `must be ${JSON.stringify(schema.const)}`);
+  }
+  if (schema.enum && !schema.enum.includes(value)) {
+    issue(at, `must be one of ${schema.enum.map((v) => `"${v}"`).join(", ")}`);
+  }
+  if (schema.minimum !== undefined && value < schema.minimum) {
+    issue(at, `must be at least ${schema.minimum}`);
+  }
+  if (
+    schema.exclusiveMinimum !== undefined &&
+    value <= schema.exclusiveMinimum
+  ) {
+    issue(at, `must be greater than ${schema.exclusiveMinimum}`);
+  }
+  if (schema.minLength !== undefined && value.length < schema.minLength) {
+    issue(
+      at,
+      schema.minLength === 1
+        ? "must not be empty"
+        : `must be at least ${schema.minLength} characters long`
+    );
+  }
+  if (schema.items) {
+    value.forEach((item: any, index: number) =>
+      checkSchema(item, schema.items!, `${path}[${index}]`, issue)
+    );
+  }
+  if (schema.type === "object") {
+    const keyPath = (key: string) => (path ? `${path}.${key}` : key);
+    schema.required?.forEach((key) => {
+      if (!(key in value)) {
+        issue(keyPath(key), "is required");
+      }
+    });
+    Object.entries(value).forEach(([key, property]) => {
+      const propertySchema =
+        schema.properties?.[key] ?? schema.additionalProperties ?? true;
+      if (propertySchema === false) {
+        issue(keyPath(key), "Unknown property");
+      } else if (propertySchema !== true) {
+        checkSchema(property, propertySchema, keyPath(key), issue);
+      }
+    });
+  }
+}
+
+// Check a definition against sequence.schema.json and that every referenced
+// action, layer, resource and rate limiter exists, collecting all problems
+// rather than stopping at the first
+function validateSequenceDefinition(
+  definition: any,
+  registry: ActionRegistry
+): DefinitionIssue[] {
+  const issues: DefinitionIssue[] = [];
+  const issue = (path: string, message: string) =>
+    issues.push({ path, message });
+  checkSchema(definition, sequenceSchema, "", issue);
+
+  const isObject = (value: any) =>
+    typeof value === "object" && value !== null && !Array.isArray(value);
+  // Only the names; the schema has checked the shapes
+  const checkAction = (value: any, path: string) => {
+    if (typeof value === "string" && !registry.has(value)) {
+      issue(path, `Unknown action "${value}"`);
+    }
+  };
+  const checkLayerPath = (value: any, path: string) => {
+    if (typeof value !== "string") return;
+    const root = value.split(".")[0];
+    if (root !== "input" && !layerNames.has(root)) {
+      issue(path, `Unknown layer "${root}"`);
+    }
+  };
+
+  if (!isObject(definition) || !Array.isArray(definition.layers)) {
+    return issues;
+  }
+  const rateLimiters = definition.config?.rateLimiters;
+  const resourceNames = new Set(["concurrency"]);
+  if (isObject(definition.config?.resources)) {
+    Object.keys(definition.config.resources).forEach((resource) =>
+      resourceNames.add(resource)
+    );
+  }
+  const layerNames = new Set<string>();
+  definition.layers.forEach((layer: any) => {
+    if (isObject(layer) && typeof layer.name === "string") {
+      layerNames.add(layer.name);
+    }
+  });
+
+  const seenNames = new Set<string>();
+  definition.layers.forEach((layer: any, index: number) => {
+    const at = `layers[${index}]`;
+    if (!isObject(layer)) return;
+    if (typeof layer.name === "string") {
+      if (seenNames.has(layer.name)) {
+        issue(`${at}.name`, `Duplicate layer name "${layer.name}"`);
+      }
+      seenNames.add(layer.name);
+    }
+    checkAction(layer.action, `${at}.action`);
+    checkAction(layer.compensate, `${at}.compensate`);
+    checkAction(layer.when, `${at}.when`);
+    if (isObject(layer.retry)) {
+      checkAction(layer.retry.retryOn, `${at}.retry.retryOn`);
+      checkAction(layer.retry.retryAfter, `${at}.retry.retryAfter`);
+    }
+
+    if (Array.isArray(layer.dependsOn)) {
+      layer.dependsOn.forEach((dep: any, depIndex: number) => {
+        if (typeof dep === "string" && !layerNames.has(dep)) {
+          issue(`${at}.dependsOn[${depIndex}]`, `Unknown layer "${dep}"`);
+        }
+      });
+    }
+    if (isObject(layer.args)) {
+      Object.entries(layer.args).forEach(([param, argPath]) =>
+        checkLayerPath(argPath, `${at}.args.${param}`)
+      );
+    }
+    if (isObject(layer.map)) {
+      checkLayerPath(layer.map.over, `${at}.map.over`);
+    }
+    if (isObject(layer.uses)) {
+      Object.keys(layer.uses)
+        .filter((resource) => !resourceNames.has(resource))
+        .forEach((resource) =>
+          issue(`${at}.uses.${resource}`, `Unknown resource "${resource}"`)
+        );
+    }
+    if (
+      typeof layer.rateLimit === "string" &&
+      !(isObject(rateLimiters) && layer.rateLimit in rateLimiters)
+    ) {
+      issue(`${at}.rateLimit`, `Unknown rate limiter "${layer.rateLimit}"`);
+    }
+  });
+
+  return issues;
+}
 
-      // Draw lines using box-drawing characters
-      const x1 = fromPos.x;
-      const y1 = fromPos.y - 3; // Top of the node
-      const x2 = toPos.x;
-      const y2 = toPos.y + 3; // Bottom of the dependency node
+function isYamlFile(filename: string): boolean {
+  return [".yaml", ".yml"].includes(path.extname(filename).toLowerCase());
+}
 
-      if (x1 === x2) {
-        // Vertical line
-        const yStart = Math.min(y1, y2);
-        const yEnd = Math.max(y1, y2);
-        for (let y = yStart + 1; y < yEnd; y++) {
-          if (y >= 0 && y < canvas.length) {
-            canvas[y][x1] = "│";
-          }
-        }
-      } else {
-        // Vertical line from fromNode upwards
-        const yStart = y1;
-        const yEnd = y1 - 2;
-        for (let y = yEnd; y < yStart; y++) {
-          if (y >= 0 && y < canvas.length) {
-            canvas[y][x1] = "│";
-          }
-        }
-        // Horizontal line
-        const xStart = Math.min(x1, x2);
-        const xEnd = Math.max(x1, x2);
-        const y = y1 - 2;
-        for (let x = xStart + 1; x < xEnd; x++) {
-          if (y >= 0 && y < canvas.length && x >= 0 && x < canvas[0].length) {
-            canvas[y][x] = "─";
-          }
-        }
-        // Vertical line down to toNode
-        const yStart2 = y2 + 2;
-        const yEnd2 = y2;
-        for (let y = yStart2; y > yEnd2; y--) {
-          if (y >= 0 && y < canvas.length) {
-            canvas[y][x2] = "│";
-          }
-        }
-        // Connectors
-        if (
-          y1 - 2 >= 0 &&
-          y1 - 2 < canvas.length &&
-          x2 >= 0 &&
-          x2 < canvas[0].length
-        ) {
-          canvas[y1 - 2][x2] = "┌";
-        }
-        if (
-          y2 + 2 >= 0 &&
-          y2 + 2 < canvas.length &&
-          x2 >= 0 &&
-          x2 < canvas[0].length
-        ) {
-          canvas[y2 + 2][x2] = "└";
-        }
-        if (
-          y1 - 2 >= 0 &&
-          y1 - 2 < canvas.length &&
-          x1 >= 0 &&
-          x1 < canvas[0].length
-        ) {
-          canvas[y1 - 2][x1] = x1 < x2 ? "┘" : "└";
-        }
-      }
-    });
+// Parse the text of a sequence file, reporting syntax errors the same way as
+// schema errors
+function parseSequenceFile(filename: string, data: string): any {
+  try {
+    return isYamlFile(filename) ? YAML.parse(data) : JSON.parse(data);
+  } catch (error: any) {
+    throw new SequenceDefinitionError([
+      { path: "$", message: `${path.basename(filename)}: ${error.message}` },
+    ]);
+  }
+}
+
+// Turn a layer into the task that runs it, filling in the sequence's defaults
+function createTask(layer: LayerConfig, config: SequenceConfig): Task {
+  const dependencies = new Set<string>(layer.dependsOn ?? []);
+  Object.values<string>(layer.args ?? {}).forEach((path) => {
+    const root = path.split(".")[0];
+    if (root !== "input") {
+      dependencies.add(root);
+    }
   });
 
-  // Print the canvas
-  const output = canvas.map((row) => row.join("")).join("\n");
-  console.log(output);
+  return {
+    id: layer.name,
+    action: layer.execute as Task["action"],
+    dependencies: dependencies.size > 0 ? [...dependencies] : undefined,
+    inject: layer.inject,
+    args: layer.args,
+    retry: {
+      maxRetries: layer.retries,
+      delay: layer.retryDelay,
+      ...layer.retry,
+    },
+    timeout: layer.timeout,
+    totalTimeout: layer.totalTimeout,
+    onError: layer.onError,
+    compensate: layer.compensate,
+    when: layer.when as Task["when"],
+    onDependencySkipped:
+      layer.onDependencySkipped ?? config.onDependencySkipped,
+    priority: layer.priority,
+    uses: layer.uses,
+    rateLimit: layer.rateLimit,
+  };
 }
 
-// Sequence class
-class Sequence {
-  private dag: Graph;
+// Sequence class. TArtifacts maps each layer name added so far to the type of
+// its artifact, so dependents are type-checked against what they depend on.
+class Sequence<
+  TArtifacts extends Record<string, any> = {}
+> extends EventEmitter<SequenceEventMap> {
+  private dag: Graph; // of the last top-level run
   private tasks: Task[] = [];
   private config: SequenceConfig;
   public context: Record<string, any> = {};
-  private executionStart: number = 0;
+  private abortController: AbortController | null = null;
+  private logger: Logger;
+  private scheduler: SchedulingStrategy;
+  private rateLimiters: Map<string, RateLimiter>;
+  // Moving average of each task's execution time over earlier runs
+  private durationEstimates: Map<string, number> = new Map();
 
   constructor(config: SequenceConfig) {
+    super();
     this.dag = new Graph();
     this.config = config;
+    this.logger =
+      config.logger ??
+      createConsoleLogger({ level: config.verbose ? "debug" : "info" });
+    this.scheduler = resolveScheduler(config.scheduler);
+    this.rateLimiters = new Map(
+      Object.entries(config.rateLimiters ?? {}).map(([name, limiter]) => [
+        name,
+        limiter instanceof RateLimiter ? limiter : new RateLimiter(limiter),
+      ])
+    );
+  }
+
+  // Check the layers added so far for every problem that would fail a build,
+  // plus warnings about likely mistakes. Nothing is executed.
+  validate(): ValidationResult {
+    return validateTasks(this.tasks, this.config);
+  }
+
+  // How the layers added so far would execute, without running anything.
+  // Throws the same graph errors as build().
+  plan(): ExecutionPlan {
+    return createExecutionPlan(Graph.fromTasks(this.tasks));
+  }
+
+  addLayer<
+    TName extends string,
+    const TDeps extends readonly (keyof TArtifacts & string)[] = [],
+    TResult = any,
+    TInject extends InjectionMode = "positional",
+    const TArgs extends ArgumentMapping | undefined = undefined
+  >(
+    taskConfig: LayerConfig<TArtifacts, TName, TDeps, TResult, TInject, TArgs>
+  ): Sequence<TArtifacts & { [K in TName]: Awaited<TResult> }>;
+  addLayer<
+    TName extends string,
+    TChild extends Record<string, any>,
+    TOutput extends keyof TChild & string,
+    const TDeps extends readonly (keyof TArtifacts & string)[] = [],
+    const TArgs extends ArgumentMapping | undefined = undefined
+  >(
+    taskConfig: SubSequenceLayerConfig<
+      TArtifacts,
+      TName,
+      TDeps,
+      TChild,
+      TOutput,
+      TArgs
+    >
+  ): Sequence<TArtifacts & { [K in TName]: TChild[TOutput] }>;
+  // Layers can be added in any order at runtime; naming one that isn't added
+  // yet takes forwardReferences: true and gives up the typed arguments
+  addLayer<TName extends string, TResult = any>(
+    taskConfig: ForwardLayerConfig<TName, TResult>
+  ): Sequence<TArtifacts & { [K in TName]: Awaited<TResult> }>;
+  addLayer(
+    taskConfig:
+      | LayerConfig<any>
+      | SubSequenceLayerConfig<any, string, readonly string[], any, any, any>
+  ): Sequence<any> {
+    if ("sequence" in taskConfig) {
+      const { sequence: child, output, ...layerConfig } = taskConfig;
+      const layer: LayerConfig = {
+        ...layerConfig,
+        inject: "named",
+        execute: (input: any, ctx: TaskContext) =>
+          task.subSequence!.run(task, input, ctx.signal),
+      };
+      const task = createTask(layer, this.config);
+      task.subSequence = child.asSubSequence(output);
+      this.tasks.push(task);
+      return this;
+    }
+
+    this.tasks.push(createTask(taskConfig, this.config));
+    // Same instance, now typed with the new layer's artifact
+    return this;
   }
 
-  addLayer(taskConfig: LayerConfig): this {
-    const task: Task = {
-      id: taskConfig.name,
-      action: taskConfig.execute,
-      dependencies: taskConfig.dependsOn,
-      retryCount: taskConfig.retries,
-      retryDelay: taskConfig.retryDelay,
-      onError: taskConfig.onError,
-      priority: taskConfig.priority,
+  // Run this sequence as a layer of another one. Its tasks become the
+  // children of the layer's task in the parent's report.
+  private asSubSequence(output: string): SubSequence {
+    return {
+      output,
+      run: async (layerTask, input, signal, pool) => {
+        // Task state lives on the Task objects, so every nested run gets
+        // copies of its own
+        const graph = Graph.fromTasks(this.tasks.map((task) => ({ ...task })));
+        try {
+          const report = await this.execute(
+            uuidv4(),
+            { input, signal },
+            undefined,
+            {
+              graph,
+              pool:
+                pool ??
+                new ResourcePool(
+                  resourceCapacities(this.config),
+                  this.scheduler
+                ),
+            }
+          );
+          if (!(output in report.tasks)) {
+            throw new SequenceError(
+              `The sequence of layer ${layerTask.id} has no task ${output}`
+            );
+          }
+          return report.tasks[output].artifact;
+        } finally {
+          layerTask.children = Array.from(
+            graph.nodes.values(),
+            (node) => node.task
+          );
+        }
+      },
     };
+  }
+
+  // Add a layer that runs execute once per element of the array at `over`,
+  // e.g. over: "FetchPosts". The layer it points into becomes a dependency.
+  addMapLayer<TName extends string, const TOver extends string, TResult = any>(
+    taskConfig: MapLayerConfig<TArtifacts, TName, TOver, TResult>
+  ): Sequence<TArtifacts & { [K in TName]: (Awaited<TResult> | undefined)[] }>;
+  addMapLayer(taskConfig: MapLayerConfig<any>): Sequence<any> {
+    const { over, concurrency, maxFailures, ...layerConfig } = taskConfig;
+    const layer: LayerConfig = { ...layerConfig, args: { items: over } };
+    const task = createTask(layer, this.config);
+    task.map = { over, concurrency, maxFailures };
     this.tasks.push(task);
+    // Same instance, now typed with the new layer's artifact
     return this;
   }
 
-  async build(): Promise<void> {
-    // Build the DAG
-    this.tasks.forEach((task) => this.dag.addTask(task));
+  // A JSON-safe definition of this sequence. Every function must be
+  // registered in config.registry so it can be written out by name.
+  toJSON(): SequenceDefinition {
+    const registry = this.config.registry;
+    const { scheduler } = this.config;
+    if (scheduler !== undefined && typeof scheduler !== "string") {
+      throw new SequenceError(
+        "Cannot serialize a sequence with a custom scheduler"
+      );
+    }
+    const nameOf = (
+      fn: ((...args: any[]) => any) | undefined,
+      layer: string,
+      field: string
+    ): string | undefined => {
+      if (!fn) return undefined;
+      const name = registry?.nameOf(fn);
+      if (!name) {
+        throw new SequenceError(
+          `Cannot serialize layer ${layer}: its ${field} is not in the action registry`
+        );
+      }
+      return name;
+    };
+
+    return {
+      version: 1,
+      config: {
+        verbose: this.config.verbose,
+        maxConcurrency: this.config.maxConcurrency,
+        onDependencySkipped: this.config.onDependencySkipped,
+        scheduler,
+        resources: this.config.resources,
+        rateLimiters:
+          this.rateLimiters.size > 0
+            ? Object.fromEntries(
+                Array.from(this.rateLimiters, ([name, limiter]) => [
+                  name,
+                  limiter.options,
+                ])
+              )
+            : undefined,
+      },
+      input: this.config.input,
+      layers: this.tasks.map((task) => {
+        if (task.subSequence) {
+          throw new SequenceError(
+            `Cannot serialize layer ${task.id}: it runs a sub-sequence`
+          );
+        }
+        const { retryOn, retryAfter, ...retry } = task.retry ?? {};
+        const retryDefinition: RetryPolicyDefinition = {
+          ...retry,
+          retryOn: nameOf(retryOn, task.id, "retry.retryOn"),
+          retryAfter: nameOf(retryAfter, task.id, "retry.retryAfter"),
+        };
+        return {
+          name: task.id,
+          action: nameOf(task.action, task.id, "action")!,
+          dependsOn: task.dependencies,
+          inject: task.inject,
+          // A map layer's args only point at its array, which map.over holds
+          args: task.map ? undefined : task.args,
+          map: task.map,
+          retry: Object.values(retryDefinition).some((v) => v !== undefined)
+            ? retryDefinition
+            : undefined,
+          timeout: task.timeout,
+          totalTimeout: task.totalTimeout,
+          onError: task.onError,
+          compensate: nameOf(task.compensate, task.id, "compensate"),
+          when: nameOf(task.when, task.id, "when"),
+          onDependencySkipped: task.onDependencySkipped,
+          priority: task.priority,
+          uses: task.uses,
+          rateLimit: task.rateLimit,
+        };
+      }),
+    };
+  }
+
+  // Rebuild a sequence from a definition, looking actions up by name.
+  // Settings that can't be serialized, like the logger, come from config.
+  static fromJSON(
+    definition: SequenceDefinition,
+    registry: ActionRegistry,
+    config: SequenceConfig = {}
+  ): Sequence<any> {
+    const issues = validateSequenceDefinition(definition, registry);
+    if (issues.length > 0) {
+      throw new SequenceDefinitionError(issues);
+    }
+
+    const sequence = new Sequence<any>({
+      ...definition.config,
+      input: definition.input,
+      ...config,
+      registry,
+    });
+    definition.layers.forEach((layer) => {
+      const { retryOn, retryAfter, ...retry } = layer.retry ?? {};
+      const layerConfig: LayerConfig<any> = {
+        name: layer.name,
+        execute: registry.get(layer.action)!,
+        dependsOn: layer.dependsOn,
+        inject: layer.inject,
+        args: layer.args,
+        retries: layer.retries,
+        retryDelay: layer.retryDelay,
+        retry: {
+          ...retry,
+          retryOn: retryOn ? registry.get(retryOn) : undefined,
+          retryAfter: retryAfter ? registry.get(retryAfter) : undefined,
+        },
+        timeout: layer.timeout,
+        totalTimeout: layer.totalTimeout,
+        onError: layer.onError,
+        compensate: layer.compensate
+          ? registry.get(layer.compensate)
+          : undefined,
+        when: layer.when ? registry.get(layer.when) : undefined,
+        onDependencySkipped: layer.onDependencySkipped,
+        priority: layer.priority,
+        uses: layer.uses,
+        rateLimit: layer.rateLimit,
+      };
+      if (layer.map) {
+        const { inject, args, ...mapLayerConfig } = layerConfig;
+        sequence.addMapLayer({ ...mapLayerConfig, ...layer.map });
+      } else {
+        sequence.addLayer(layerConfig);
+      }
+    });
+    return sequence;
+  }
+
+  // Save the definition of this sequence to a JSON file, or YAML when the
+  // filename ends in .yaml or .yml
+  async save(filename: string): Promise<void> {
+    return tracer.startActiveSpan("Save Sequence", async (span) => {
+      try {
+        const data = isYamlFile(filename)
+          ? YAML.stringify(this.toJSON())
+          : JSON.stringify(this.toJSON(), null, 2);
+        await fs.writeFile(path.resolve(filename), data);
+        span.setStatus({ code: opentelemetry.SpanStatusCode.OK });
+      } catch (error: any) {
+        span.setStatus({
+          code: opentelemetry.SpanStatusCode.ERROR,
+          message: error.message,
+        });
+        throw error;
+      } finally {
+        span.end();
+      }
+    });
+  }
+
+  // Load a sequence file written by hand or with save(), resolving actions
+  // from the registry. The file is validated before any layer is added.
+  static async load(
+    filename: string,
+    registry: ActionRegistry,
+    config: SequenceConfig = {}
+  ): Promise<Sequence<any>> {
+    return tracer.startActiveSpan("Load Sequence", async (span) => {
+      try {
+        const data = await fs.readFile(path.resolve(filename), "utf-8");
+        const sequence = Sequence.fromJSON(
+          parseSequenceFile(filename, data),
+          registry,
+          config
+        );
+        span.setStatus({ code: opentelemetry.SpanStatusCode.OK });
+        return sequence;
+      } catch (error: any) {
+        span.setStatus({
+          code: opentelemetry.SpanStatusCode.ERROR,
+          message: error.message,
+        });
+        throw error;
+      } finally {
+        span.end();
+      }
+    });
+  }
+
+  // The lifecycle events of the next (or current) run as an async iterator,
+  // which completes after yielding "run:end"
+  events(): AsyncIterableIterator<SequenceEvent> {
+    const buffer: SequenceEvent[] = [];
+    let waiting: ((result: IteratorResult<SequenceEvent>) => void) | null =
+      null;
+    let done = false;
+
+    const onEvent = (event: SequenceEvent) => {
+      if (waiting) {
+        const resolve = waiting;
+        waiting = null;
+        resolve({ value: event, done: false });
+      } else {
+        buffer.push(event);
+      }
+      if (event.type === "run:end") {
+        stop();
+      }
+    };
+    const stop = () => {
+      done = true;
+      sequenceEventTypes.forEach((type) => this.off(type, onEvent));
+      if (waiting) {
+        waiting({ value: undefined, done: true });
+        waiting = null;
+      }
+    };
+    sequenceEventTypes.forEach((type) => this.on(type, onEvent));
+
+    return {
+      next: () => {
+        if (buffer.length > 0) {
+          return Promise.resolve({ value: buffer.shift()!, done: false });
+        }
+        if (done) {
+          return Promise.resolve({ value: undefined, done: true });
+        }
+        return new Promise((resolve) => (waiting = resolve));
+      },
+      return: () => {
+        stop();
+        buffer.length = 0;
+        return Promise.resolve({ value: undefined, done: true });
+      },
+      [Symbol.asyncIterator]() {
+        return this;
+      },
+    };
+  }
+
+  // Stop a running build; tasks see it through their context signal
+  cancel(reason?: any): void {
+    this.abortController?.abort(reason);
+  }
+
+  async build(options: BuildOptions = {}): Promise<RunReport> {
+    return this.execute(uuidv4(), {
+      ...options,
+      input: options.input ?? this.config.input,
+    });
+  }
+
+  // Continue an interrupted run from the configured checkpoint store. Tasks
+  // that completed before are not run again; their stored artifacts are used.
+  async resume(runId: string, options: BuildOptions = {}): Promise<RunReport> {
+    const store = this.config.checkpointStore;
+    if (!store) {
+      throw new SequenceError("Cannot resume without a checkpointStore");
+    }
+    const checkpoint = await store.load(runId);
+    if (!checkpoint) {
+      throw new SequenceError(`No checkpoint found for run ${runId}`);
+    }
+    return this.execute(
+      runId,
+      { ...options, input: options.input ?? checkpoint.input },
+      checkpoint
+    );
+  }
+
+  // Run the sequence. A sub-sequence passes a graph of its own task copies
+  // and the pool of the run it is part of, so that its tasks count against
+  // the same limits.
+  private async execute(
+    runId: string,
+    options: BuildOptions,
+    checkpoint?: RunCheckpoint,
+    nested?: NestedRun
+  ): Promise<RunReport> {
+    const graph = nested?.graph ?? Graph.fromTasks(this.tasks);
+    const tasks = Array.from(graph.nodes.values(), (node) => node.task);
+    // Start every run from a clean slate, apart from checkpointed tasks
+    tasks.forEach((task) => {
+      const saved = checkpoint?.tasks[task.id]?.spawned
+        ? undefined
+        : checkpoint?.tasks[task.id];
+      task.status = saved?.status;
+      task.skipReason = saved?.skipReason;
+      task.artifact = saved?.artifact;
+      task.attempts = saved?.attempts;
+      task.metrics = saved?.metrics;
+      task.error = undefined;
+      task.children = undefined;
+      task.spawned = undefined;
+      task.restored = saved !== undefined;
+    });
+
+    // cancel() stops top-level builds; nested runs stop with their layer
+    const abortController = new AbortController();
+    if (!nested) {
+      this.dag = graph;
+      this.abortController = abortController;
+    }
 
     // Perform topological sort with priority
-    const sortedNodes = topologicalSortWithPriority(this.dag);
+    const sortedNodes = topologicalSortWithPriority(graph);
+    const pool =
+      nested?.pool ??
+      new ResourcePool(resourceCapacities(this.config), this.scheduler);
+    tasks.forEach((task) => {
+      const problem = findResourceProblem(task, pool.capacities);
+      if (problem) {
+        throw new SequenceError(problem);
+      }
+      if (task.rateLimit && !this.rateLimiters.has(task.rateLimit)) {
+        throw new SequenceError(
+          `Task ${task.id} uses unknown rate limiter ${task.rateLimit}`
+        );
+      }
+    });
 
     // Start execution
-    this.executionStart = Date.now();
+    const executionStart = Date.now();
+    if (!checkpoint) {
+      await this.config.checkpointStore?.saveRun(runId, options.input);
+    }
 
     // Use tracing
-    const executionStart = this.executionStart;
-    const tasks = this.tasks;
-
-    await tracer.startActiveSpan("Execute Sequence", async (mainSpan) => {
+    const emit = (event: SequenceEventInput) => {
+      const fullEvent = {
+        ...event,
+        runId,
+        timestamp: Date.now(),
+      } as SequenceEvent;
+      // A throwing listener must not fail the task that emitted the event,
+      // or retry it and repeat its side effects
       try {
-        await executeTasksWithConcurrencyLimit(
-          sortedNodes,
-          this.config.maxConcurrency ?? 2,
+        (this.emit as (type: string, event: SequenceEvent) => boolean)(
+          fullEvent.type,
+          fullEvent
+        );
+      } catch (error: any) {
+        log(
+          this.logger,
+          "warning",
+          `A ${fullEvent.type} listener threw: ${error.message}`,
+          { runId, error },
           executionStart
         );
-        mainSpan.setStatus({ code: opentelemetry.SpanStatusCode.OK });
-        log("success", "Sequence execution completed.", null, executionStart);
-        generateTimeline(tasks, executionStart);
-        this.logPerformanceMetrics();
-        visualizeTraces(); // Visualize the trace hierarchy
+      }
+    };
+    emit({
+      type: "run:start",
+      taskIds: tasks.map((task) => task.id),
+      input: options.input,
+    });
+
+    // Only listen once nothing before the try below can throw, since its
+    // finally is what removes the listener
+    const forwardAbort = () => abortController.abort(options.signal!.reason);
+    if (options.signal?.aborted) {
+      forwardAbort();
+    } else {
+      options.signal?.addEventListener("abort", forwardAbort, { once: true });
+    }
+
+    return tracer.startActiveSpan("Execute Sequence", async (mainSpan) => {
+      const traceId = mainSpan.spanContext().traceId;
+      mainSpan.setAttribute("sequence.run_id", runId);
+      mainSpan.setAttribute("sequence.resumed", checkpoint !== undefined);
+      let status: RunReport["status"] = "success";
+      let runError: SequenceError | undefined;
+      let compensations: CompensationReport[] = [];
+      const run: RunContext = {
+        runId,
+        executionStart,
+        signal: abortController.signal,
+        input: options.input,
+        logger: this.logger,
+        emit,
+        checkpointStore: this.config.checkpointStore,
+        scheduler: this.scheduler,
+        durationEstimates: this.durationEstimates,
+        rateLimiters: this.rateLimiters,
+        createTask: (layer) => createTask(layer, this.config),
+      };
+      try {
+        await executeTasksWithConcurrencyLimit(graph, sortedNodes, pool, run);
+        // Spawned tasks included
+        const failures = Array.from(graph.nodes.values(), (node) => node.task)
+          .filter((task) => task.status === "failed")
+          .map(
+            (task) =>
+              new TaskFailedError(task.id, task.attempts ?? 0, task.error)
+          );
+        if (failures.length > 0) {
+          status = "failed";
+          runError = new SequenceFailedError(failures);
+          mainSpan.setStatus({
+            code: opentelemetry.SpanStatusCode.ERROR,
+            message: runError.message,
+          });
+          log(
+            this.logger,
+            "error",
+            runError.message,
+            { runId, error: runError },
+            executionStart
+          );
+        } else {
+          mainSpan.setStatus({ code: opentelemetry.SpanStatusCode.OK });
+          log(
+            this.logger,
+            "success",
+            "Sequence execution completed.",
+            { runId },
+            executionStart
+          );
+        }
       } catch (error: any) {
+        // A failing "abort" task also cancels its siblings, so look at whether
+        // any task actually failed to tell the two apart
+        status = error instanceof TaskFailedError ? "failed" : "cancelled";
+        runError = new SequenceAbortedError(
+          error instanceof TaskFailedError
+            ? `Sequence aborted due to failure in task ${error.taskId}`
+            : "Sequence execution cancelled",
+          error
+        );
         mainSpan.setStatus({
           code: opentelemetry.SpanStatusCode.ERROR,
           message: error.message,
         });
         log(
+          this.logger,
           "error",
           `Error during sequence execution: ${error.message}`,
-          null,
+          { runId, error },
           executionStart
         );
+        compensations = await executeCompensations(sortedNodes, error, run);
       } finally {
+        options.signal?.removeEventListener("abort", forwardAbort);
         mainSpan.end();
       }
+
+      const endTime = Date.now();
+      const report = this.createRunReport(
+        graph,
+        runId,
+        status,
+        runError,
+        executionStart,
+        endTime,
+        compensations,
+        sortedNodes,
+        exporter.spans.filter((span) => span.spanContext().traceId === traceId)
+      );
+      // Feed this run's timings into the estimates later runs schedule by
+      Object.values(report.criticalPath.tasks).forEach((timing) => {
+        const previous = this.durationEstimates.get(timing.taskId);
+        this.durationEstimates.set(
+          timing.taskId,
+          previous === undefined
+            ? timing.executionTime
+            : previous * 0.7 + timing.executionTime * 0.3
+        );
+      });
+      emit({ type: "run:end", status, report });
+      if (
+        runError instanceof SequenceAbortedError ||
+        runError instanceof SequenceFailedError
+      ) {
+        // Callers still get the full report from the rejection
+        runError.report = report;
+        throw runError;
+      }
+      return report;
     });
   }
 
-  // Method to log overall performance metrics
-  private logPerformanceMetrics() {
-    const successfulTasks = this.tasks.filter(
-      (task) => task.status === "success"
-    );
-    const failedTasks = this.tasks.filter((task) => task.status === "failed");
-    const totalTasks = this.tasks.length;
-    const totalDuration = Date.now() - this.executionStart;
-
-    const taskDurations = successfulTasks.map((task) => task.metrics!.duration);
-    const averageTaskDuration =
-      taskDurations.reduce((sum, duration) => sum + duration, 0) /
-      taskDurations.length;
-
-    const maxTaskDuration = Math.max(...taskDurations);
-    const minTaskDuration = Math.min(...taskDurations);
-
-    const successRate = (successfulTasks.length / totalTasks) * 100;
+  private createRunReport(
+    graph: Graph,
+    runId: string,
+    status: RunReport["status"],
+    error: any,
+    executionStart: number,
+    endTime: number,
+    compensations: CompensationReport[],
+    sortedNodes: GraphNode[],
+    spans: ReadableSpan[]
+  ): RunReport {
+    const toReport = (task: Task): TaskReport => ({
+      id: task.id,
+      status: task.status,
+      skipReason: task.skipReason,
+      artifact: task.artifact,
+      error: task.error,
+      attempts: task.attempts ?? 0,
+      metrics: task.metrics,
+      restored: task.restored ?? false,
+      dependencies: task.dependencies ?? [],
+      spawnedBy: task.spawnedBy,
+      children: task.children?.map(toReport),
+    });
+    const tasks: Record<string, TaskReport> = {};
+    graph.nodes.forEach((node) => {
+      tasks[node.id] = {
+        ...toReport(node.task),
+        dependencies: node.dependencies.map((depNode) => depNode.id),
+      };
+    });
 
-    console.log(
-      chalk.green("\n--- Sequence Execution Performance Metrics ---\n")
-    );
-    console.log(
-      `Total Execution Time: ${(totalDuration / 1000).toFixed(3)} seconds`
-    );
-    console.log(`Total Tasks: ${totalTasks}`);
-    console.log(`Successful Tasks: ${successfulTasks.length}`);
-    console.log(`Failed Tasks: ${failedTasks.length}`);
-    console.log(`Success Rate: ${successRate.toFixed(2)}%`);
-    console.log(
-      `Average Task Duration: ${(averageTaskDuration / 1000).toFixed(
-        3
-      )} seconds`
-    );
-    console.log(
-      `Maximum Task Duration: ${(maxTaskDuration / 1000).toFixed(3)} seconds`
-    );
-    console.log(
-      `Minimum Task Duration: ${(minTaskDuration / 1000).toFixed(3)} seconds`
-    );
+    return {
+      runId,
+      status,
+      error,
+      startTime: executionStart,
+      endTime,
+      duration: endTime - executionStart,
+      tasks,
+      compensations,
+      stats: computeRunStats(
+        Array.from(graph.nodes.values(), (node) => node.task)
+      ),
+      criticalPath: analyzeCriticalPath(sortedNodes),
+      spans,
+    };
   }
 }
 
 // Example tasks with API calls and dependency logging
-const taskFetchUser: LayerConfig = {
-  name: "FetchUser",
-  execute: async () => {
-    console.log("Fetching user data from API...");
-    const response = await axios.get(
-      "https://jsonplaceholder.typicode.com/users/1"
-    );
-    return response.data;
-  },
-  priority: 1,
-};
-
-const taskFetchPosts: LayerConfig = {
-  name: "FetchPosts",
-  execute: async () => {
-    console.log("Fetching posts from API...");
-    const response = await axios.get(
-      "https://jsonplaceholder.typicode.com/posts"
-    );
-    return response.data;
-  },
-  priority: 1,
-};
-
-const taskProcessUserData: LayerConfig = {
-  name: "ProcessUserData",
-  execute: async (userData: any) => {
-    console.log("Processing user data...");
-    console.log("Received user data:", userData);
-    // Simulate processing time
-    await delay(500);
-    const processedUser = {
-      id: userData.id,
-      name: userData.name.toUpperCase(),
-      email: userData.email,
-    };
-    console.log("Processed user data:", processedUser);
-    return processedUser;
-  },
-  dependsOn: ["FetchUser"],
-  priority: 2,
-};
-
-const taskProcessPosts: LayerConfig = {
-  name: "ProcessPosts",
-  execute: async (posts: any) => {
-    console.log("Processing posts...");
-    console.log("Received posts:", posts.slice(0, 2)); // Log first 2 posts
-    // Simulate processing time
-    await delay(700);
-    const processedPosts = posts.filter((post: any) => post.userId === 1);
-    console.log("Processed posts:", processedPosts.slice(0, 2)); // Log first 2 processed posts
-    return processedPosts;
-  },
-  dependsOn: ["FetchPosts"],
-  priority: 2,
-};
-
-const taskAggregateData: LayerConfig = {
-  name: "AggregateData",
-  execute: async (processedUser: any, processedPosts: any) => {
-    console.log("Aggregating data...");
-    console.log("User data:", processedUser);
-    console.log("Posts data:", processedPosts.slice(0, 2)); // Log first 2 posts
-    // Simulate processing time
-    await delay(600);
-    const aggregatedData = {
-      user: processedUser,
-      posts: processedPosts,
-    };
-    console.log("Aggregated data:", aggregatedData);
-    return aggregatedData;
-  },
-  dependsOn: ["ProcessUserData", "ProcessPosts"],
-  priority: 3,
-};
-
-const taskStoreData: LayerConfig = {
-  name: "StoreData",
-  execute: async (aggregatedData: any) => {
-    console.log("Storing data...");
-    console.log("Data to store:", aggregatedData);
-    // Simulate storage time
-    await delay(400);
-    return { status: "Data stored successfully", data: aggregatedData };
-  },
-  dependsOn: ["AggregateData"],
-  priority: 4,
-};
+interface User {
+  id: number;
+  name: string;
+  email: string;
+}
 
-const taskSendNotification: LayerConfig = {
-  name: "SendNotification",
-  execute: async (storeResult: any) => {
-    console.log("Sending notification...");
-    console.log("Store result:", storeResult);
-    // Simulate sending notification
-    await delay(300);
-    return { status: "Notification sent", result: storeResult };
-  },
-  dependsOn: ["StoreData"],
-  priority: 5,
-};
+interface Post {
+  id: number;
+  userId: number;
+  title: string;
+  body: string;
+}
 
 // Run the sequence
 (async () => {
+  // Layers are added inline so each execute is checked against the artifact
+  // types of the layers it depends on
   const sequence = new Sequence({
     verbose: true,
     maxConcurrency: 3, // Increased concurrency
-  });
-
-  sequence
-    .addLayer(taskFetchUser)
-    .addLayer(taskFetchPosts)
-    .addLayer(taskProcessUserData)
-    .addLayer(taskProcessPosts)
-    .addLayer(taskAggregateData)
-    .addLayer(taskStoreData)
-    .addLayer(taskSendNotification);
+  })
+    .addLayer({
+      name: "FetchUser",
+      execute: async (ctx: TaskContext): Promise<User> => {
+        console.log("Fetching user data from API...");
+        const response = await axios.get(
+          "https://jsonplaceholder.typicode.com/users/1",
+          { signal: ctx.signal }
+        );
+        return response.data;
+      },
+      priority: 1,
+    })
+    .addLayer({
+      name: "FetchPosts",
+      execute: async (ctx: TaskContext): Promise<Post[]> => {
+        console.log("Fetching posts from API...");
+        const response = await axios.get(
+          "https://jsonplaceholder.typicode.com/posts",
+          { signal: ctx.signal }
+        );
+        return response.data;
+      },
+      priority: 1,
+    })
+    .addLayer({
+      name: "ProcessUserData",
+      execute: async (userData: User) => {
+        console.log("Processing user data...");
+        console.log("Received user data:", userData);
+        // Simulate processing time
+        await delay(500);
+        const processedUser: User = {
+          id: userData.id,
+          name: userData.name.toUpperCase(),
+          email: userData.email,
+        };
+        console.log("Processed user data:", processedUser);
+        return processedUser;
+      },
+      dependsOn: ["FetchUser"],
+      priority: 2,
+    })
+    .addLayer({
+      name: "ProcessPosts",
+      execute: async (posts: Post[]) => {
+        console.log("Processing posts...");
+        console.log("Received posts:", posts.slice(0, 2)); // Log first 2 posts
+        // Simulate processing time
+        await delay(700);
+        const processedPosts = posts.filter((post) => post.userId === 1);
+        console.log("Processed posts:", processedPosts.slice(0, 2)); // Log first 2 processed posts
+        return processedPosts;
+      },
+      dependsOn: ["FetchPosts"],
+      priority: 2,
+    })
+    .addLayer({
+      name: "AggregateData",
+      execute: async (processedUser: User, processedPosts: Post[]) => {
+        console.log("Aggregating data...");
+        console.log("User data:", processedUser);
+        console.log("Posts data:", processedPosts.slice(0, 2)); // Log first 2 posts
+        // Simulate processing time
+        await delay(600);
+        const aggregatedData = {
+          user: processedUser,
+          posts: processedPosts,
+        };
+        console.log("Aggregated data:", aggregatedData);
+        return aggregatedData;
+      },
+      dependsOn: ["ProcessUserData", "ProcessPosts"],
+      priority: 3,
+    })
+    .addLayer({
+      name: "StoreData",
+      execute: async (aggregatedData: { user: User; posts: Post[] }) => {
+        console.log("Storing data...");
+        console.log("Data to store:", aggregatedData);
+        // Simulate storage time
+        await delay(400);
+        return {
+          status: "Data stored successfully",
+          changed: aggregatedData.posts.length > 0,
+          data: aggregatedData,
+        };
+      },
+      dependsOn: ["AggregateData"],
+      priority: 4,
+    })
+    .addLayer({
+      name: "SendNotification",
+      execute: async (storeResult) => {
+        console.log("Sending notification...");
+        console.log("Store result:", storeResult.status);
+        // Simulate sending notification
+        await delay(300);
+        return { status: "Notification sent", result: storeResult };
+      },
+      dependsOn: ["StoreData"],
+      // Only notify when storing actually changed something
+      when: ({ StoreData }) => StoreData.changed,
+      priority: 5,
+    });
 
-  visualizeGraph(sequence["dag"]);
   try {
-    await sequence.build();
-    console.log("Final context:", sequence.context);
+    const report = await sequence.build();
+    visualizeGraph(sequence["dag"]);
+    renderRunReport(report);
+    console.log("Final artifact:", report.tasks["SendNotification"].artifact);
   } catch (error) {
     console.error("Error during sequence execution:", error);
+    if (
+      error instanceof SequenceAbortedError ||
+      error instanceof SequenceFailedError
+    ) {
+      renderRunReport(error.report!);
+    }
   }
 })();